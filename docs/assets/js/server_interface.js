@@ -4,6 +4,8 @@
  * Bridge between the HTML form and the conversion server. It relies on `<input>` elements with the `id` values set to
  * `url`, `respec`, `publishDate`, `specStatus`, `addSectionLinks`, and `maxTocLevel`.
  *
+ * The progress of the conversion, streamed by the server, is displayed through the `<progress>` element with the `id` value `progress`, and the `<output>` element with the `id` value `status`.
+ *
  * The script relies on the service running at 'https://r2epub.herokuapp.com/'
  *
  * This script must be converted to Javascript.
@@ -47,6 +49,17 @@ var __generator = (this && this.__generator) || function (thisArg, body) {
         if (op[0] & 5) throw op[1]; return { value: op[0] ? op[1] : void 0, done: true };
     }
 };
+var __rest = (this && this.__rest) || function (s, e) {
+    var t = {};
+    for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p) && e.indexOf(p) < 0)
+        t[p] = s[p];
+    if (s != null && typeof Object.getOwnPropertySymbols === "function")
+        for (var i = 0, p = Object.getOwnPropertySymbols(s); i < p.length; i++) {
+            if (e.indexOf(p[i]) < 0 && Object.prototype.propertyIsEnumerable.call(s, p[i]))
+                t[p[i]] = s[p[i]];
+        }
+    return t;
+};
 var _this = this;
 /**
  * Default conversion service URL. Unless the user has set the `data-r2epubservice` attribute on the form element to a different URL, this service is used.
@@ -54,6 +67,12 @@ var _this = this;
  */
 var default_service = 'https://r2epub.herokuapp.com/';
 var epub_content_type = 'application/epub+zip';
+var json_content_type = 'application/json';
+var ndjson_content_type = 'application/x-ndjson';
+/**
+ * The conversion phases, in order, as reported by the server in the progress events.
+ */
+var phases = ['fetch_document', 'collect_resources', 'css', 'cover', 'nav', 'package', 'images', 'zip'];
 var storage_key = 'r2epub';
 /**
  * Get the locally stored storage data and init the form accordingly
@@ -79,6 +98,140 @@ function store_server_data(url, port) {
     };
     localStorage.setItem(storage_key, JSON.stringify(server_data));
 }
+/**
+ * Create a human readable message from the error returned by the server.
+ *
+ * @param content - the body of the (error) response
+ * @param content_type - the media type of the response
+ */
+function error_message(content, content_type) {
+    return __awaiter(this, void 0, void 0, function () {
+        var text, error, details;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0: return [4 /*yield*/, content.text()];
+                case 1:
+                    text = _a.sent();
+                    if (content_type === json_content_type) {
+                        error = JSON.parse(text);
+                        details = [];
+                        if (error.url !== undefined)
+                            details.push("URL: " + error.url);
+                        if (error.chapter !== undefined)
+                            details.push("chapter: " + error.chapter);
+                        return [2 /*return*/, "EPUB Generation error [" + error.code + "]: " + error.message + (details.length > 0 ? "\n(" + details.join(', ') + ")" : '')];
+                    }
+                    else {
+                        return [2 /*return*/, text];
+                    }
+                    return [2 /*return*/];
+            }
+        });
+    });
+}
+/**
+ * Display a progress event sent by the server.
+ *
+ * @param event - the progress event
+ */
+function show_progress(event) {
+    var progress = document.getElementById('progress');
+    var status = document.getElementById('status');
+    if (event.status === 'end') {
+        if (event.chapter === undefined) {
+            progress.max = phases.length;
+            progress.value = phases.indexOf(event.phase) + 1;
+        }
+        else {
+            // The phases of the chapters run in parallel, the overall progress cannot be measured
+            progress.removeAttribute('value');
+        }
+        if (status !== null) {
+            var chapter = event.chapter !== undefined ? " (chapter " + event.chapter + ")" : '';
+            var counts = event.resources !== undefined ? ": " + event.resources + " resource(s)" : '';
+            status.value = "" + event.phase + chapter + counts;
+        }
+    }
+}
+/**
+ * Clear the progress display.
+ */
+function clear_progress() {
+    var progress = document.getElementById('progress');
+    var status = document.getElementById('status');
+    progress.style.setProperty('visibility', 'hidden');
+    if (status !== null)
+        status.value = '';
+}
+/**
+ * Read the streamed response of the server: each line is a JSON object, see [[StreamData]]. The progress events are displayed, and the final result (or error) is returned.
+ *
+ * @async
+ * @param response - the response of the server
+ * @returns the final content as well as the local name of the EPUB instance; in case of error, the content is the error object itself, as JSON.
+ */
+function read_stream(response) {
+    return __awaiter(this, void 0, void 0, function () {
+        var reader, decoder, buffer, final, handle_line, _a, done, value, lines, binary, bytes, i, type, error;
+        return __generator(this, function (_b) {
+            switch (_b.label) {
+                case 0:
+                    reader = response.body.getReader();
+                    decoder = new TextDecoder();
+                    buffer = '';
+                    final = null;
+                    handle_line = function (line) {
+                        if (line.trim() !== '') {
+                            var data = JSON.parse(line);
+                            if (data.type === 'progress') {
+                                show_progress(data);
+                            }
+                            else {
+                                final = data;
+                            }
+                        }
+                    };
+                    _b.label = 1;
+                case 1: return [4 /*yield*/, reader.read()];
+                case 2:
+                    _a = _b.sent(), done = _a.done, value = _a.value;
+                    if (done)
+                        return [3 /*break*/, 4];
+                    buffer += decoder.decode(value, { stream: true });
+                    lines = buffer.split('\n');
+                    buffer = lines.pop();
+                    lines.forEach(handle_line);
+                    _b.label = 3;
+                case 3: return [3 /*break*/, 1];
+                case 4:
+                    handle_line(buffer);
+                    if (final === null) {
+                        throw new Error('The conversion server did not return any result');
+                    }
+                    else if (final.type === 'result') {
+                        binary = atob(final.content);
+                        bytes = new Uint8Array(binary.length);
+                        for (i = 0; i < binary.length; i++)
+                            bytes[i] = binary.charCodeAt(i);
+                        return [2 /*return*/, {
+                                content_type: epub_content_type,
+                                file_name: final.file_name,
+                                content: new Blob([bytes], { type: epub_content_type })
+                            }];
+                    }
+                    else {
+                        type = final.type, error = __rest(final, ["type"]);
+                        return [2 /*return*/, {
+                                content_type: json_content_type,
+                                file_name: undefined,
+                                content: new Blob([JSON.stringify(error)], { type: json_content_type })
+                            }];
+                    }
+                    return [2 /*return*/];
+            }
+        });
+    });
+}
 /**
  * Get the service to perform the conversion.
  *
@@ -95,7 +248,11 @@ function fetch_book(resource_url) {
                         window.fetch(resource_url, { mode: 'cors' })
                             .then(function (response) {
                             content_type = response.headers.get('Content-type');
-                            if (response.ok) {
+                            if (response.ok && content_type === ndjson_content_type) {
+                                // The server streams the progress and, finally, the result
+                                return read_stream(response);
+                            }
+                            else if (response.ok) {
                                 fname = response.headers.get('Content-Disposition').split(';')[1].split('=')[1];
                                 return response.blob();
                             }
@@ -111,11 +268,16 @@ function fetch_book(resource_url) {
                             }
                         })
                             .then((function (content) {
-                            resolve({
-                                content_type: content_type,
-                                file_name: fname,
-                                content: content
-                            });
+                            if (content instanceof Blob) {
+                                resolve({
+                                    content_type: content_type,
+                                    file_name: fname,
+                                    content: content
+                                });
+                            }
+                            else {
+                                resolve(content);
+                            }
                         }))["catch"](function (err) {
                             reject(new Error("Problem accessing: " + err));
                         });
@@ -174,7 +336,8 @@ var submit = function (event) { return __awaiter(_this, void 0, void 0, function
                 service = (server.value.startsWith('http://localhost')) ? server.value + ":" + port.value : server.value;
                 query = [
                     "url=" + url.value,
-                    "respec=" + (respec.value === 'true')
+                    "respec=" + (respec.value === 'true'),
+                    "progress=true"
                 ];
                 if (publishDate.value !== '') {
                     query.push("publishDate=" + publishDate.value);
@@ -194,6 +357,7 @@ var submit = function (event) { return __awaiter(_this, void 0, void 0, function
             case 2:
                 _a.trys.push([2, 7, , 8]);
                 // turn on the progress bar at the bottom of the form
+                progress.removeAttribute('value');
                 progress.style.setProperty('visibility', 'visible');
                 return [4 /*yield*/, fetch_book(service_url)];
             case 3:
@@ -201,7 +365,7 @@ var submit = function (event) { return __awaiter(_this, void 0, void 0, function
                 if (!(returned.content_type === epub_content_type)) return [3 /*break*/, 4];
                 save_book(returned.content, returned.file_name);
                 return [3 /*break*/, 6];
-            case 4: return [4 /*yield*/, returned.content.text()];
+            case 4: return [4 /*yield*/, error_message(returned.content, returned.content_type)];
             case 5:
                 message = _a.sent();
                 alert(message);
@@ -210,13 +374,13 @@ var submit = function (event) { return __awaiter(_this, void 0, void 0, function
                 // Remove the query string from the URL bar
                 // document.location.search = '';
                 // Clean up the user interface and we are done!
-                progress.style.setProperty('visibility', 'hidden');
+                clear_progress();
                 if (returned.content_type === epub_content_type)
                     fading_success();
                 return [3 /*break*/, 8];
             case 7:
                 e_1 = _a.sent();
-                progress.style.setProperty('visibility', 'hidden');
+                clear_progress();
                 alert("" + e_1);
                 return [3 /*break*/, 8];
             case 8: return [3 /*break*/, 10];
@@ -4,6 +4,8 @@
  * Bridge between the HTML form and the conversion server. It relies on `<input>` elements with the `id` values set to
  * `url`, `respec`, `publishDate`, `specStatus`, `addSectionLinks`, and `maxTocLevel`.
  *
+ * The progress of the conversion, streamed by the server, is displayed through the `<progress>` element with the `id` value `progress`, and the `<output>` element with the `id` value `status`.
+ *
  * The script relies on the service running at 'https://r2epub.herokuapp.com/'
  *
  * This script must be converted to Javascript.
@@ -20,12 +22,54 @@ const default_service :string = 'https://r2epub.herokuapp.com/';
 
 const epub_content_type = 'application/epub+zip';
 
+const json_content_type = 'application/json';
+
+const ndjson_content_type = 'application/x-ndjson';
+
+/**
+ * The conversion phases, in order, as reported by the server in the progress events.
+ */
+const phases :string[] = ['fetch_document', 'collect_resources', 'css', 'cover', 'nav', 'package', 'images', 'zip'];
+
 interface ReturnedData {
     content_type :string,
     file_name    :string,
     content      :Blob
 }
 
+/**
+ * Error data returned by the server (with a 400 status) if the conversion fails.
+ */
+interface ErrorData {
+    code     :string,
+    message  :string,
+    url?     :string,
+    chapter? :number
+}
+
+/**
+ * One line of the streamed server response: a progress event, the final result, or an error.
+ */
+interface StreamData {
+    type       :'progress' | 'result' | 'error',
+
+    // Fields of a progress event
+    phase?     :string,
+    status?    :string,
+    chapter?   :number,
+    resources? :number,
+    bytes?     :number,
+
+    // Fields of a result
+    file_name? :string,
+    content?   :string,
+
+    // Fields of an error
+    code?      :string,
+    message?   :string,
+    url?       :string
+}
+
 interface ServerData {
     url  :string;
     port :string;
@@ -61,6 +105,114 @@ function store_server_data(url: string, port: string) {
 
 
 
+/**
+ * Create a human readable message from the error returned by the server.
+ *
+ * @param content - the body of the (error) response
+ * @param content_type - the media type of the response
+ */
+async function error_message(content :Blob, content_type :string) :Promise<string> {
+    const text = await content.text();
+    if (content_type === json_content_type) {
+        const error = JSON.parse(text) as ErrorData;
+        const details :string[] = [];
+        if (error.url !== undefined) details.push(`URL: ${error.url}`);
+        if (error.chapter !== undefined) details.push(`chapter: ${error.chapter}`);
+        return `EPUB Generation error [${error.code}]: ${error.message}${details.length > 0 ? `\n(${details.join(', ')})` : ''}`;
+    } else {
+        return text;
+    }
+}
+
+/**
+ * Display a progress event sent by the server.
+ *
+ * @param event - the progress event
+ */
+function show_progress(event :StreamData) {
+    const progress :HTMLProgressElement = document.getElementById('progress') as HTMLProgressElement;
+    const status :HTMLOutputElement     = document.getElementById('status') as HTMLOutputElement;
+    if (event.status === 'end') {
+        if (event.chapter === undefined) {
+            progress.max   = phases.length;
+            progress.value = phases.indexOf(event.phase) + 1;
+        } else {
+            // The phases of the chapters run in parallel, the overall progress cannot be measured
+            progress.removeAttribute('value');
+        }
+        if (status !== null) {
+            const chapter = event.chapter !== undefined ? ` (chapter ${event.chapter})` : '';
+            const counts  = event.resources !== undefined ? `: ${event.resources} resource(s)` : '';
+            status.value  = `${event.phase}${chapter}${counts}`;
+        }
+    }
+}
+
+/**
+ * Clear the progress display.
+ */
+function clear_progress() {
+    const progress :HTMLProgressElement = document.getElementById('progress') as HTMLProgressElement;
+    const status :HTMLOutputElement     = document.getElementById('status') as HTMLOutputElement;
+    progress.style.setProperty('visibility', 'hidden');
+    if (status !== null) status.value = '';
+}
+
+/**
+ * Read the streamed response of the server: each line is a JSON object, see [[StreamData]]. The progress events are displayed, and the final result (or error) is returned.
+ *
+ * @async
+ * @param response - the response of the server
+ * @returns the final content as well as the local name of the EPUB instance; in case of error, the content is the error object itself, as JSON.
+ */
+async function read_stream(response :Response) :Promise<ReturnedData> {
+    const reader  = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer :string = '';
+    let final :StreamData = null;
+
+    const handle_line = (line :string) :void => {
+        if (line.trim() !== '') {
+            const data = JSON.parse(line) as StreamData;
+            if (data.type === 'progress') {
+                show_progress(data);
+            } else {
+                final = data;
+            }
+        }
+    };
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop();
+        lines.forEach(handle_line);
+    }
+    handle_line(buffer);
+
+    if (final === null) {
+        throw new Error('The conversion server did not return any result');
+    } else if (final.type === 'result') {
+        const binary = atob(final.content);
+        const bytes  = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        return {
+            content_type : epub_content_type,
+            file_name    : final.file_name,
+            content      : new Blob([bytes], { type: epub_content_type })
+        };
+    } else {
+        const { type, ...error } = final;
+        return {
+            content_type : json_content_type,
+            file_name    : undefined,
+            content      : new Blob([JSON.stringify(error)], { type: json_content_type })
+        };
+    }
+}
+
 /**
  * Get the service to perform the conversion.
  *
@@ -74,9 +226,12 @@ async function fetch_book(resource_url :string) :Promise<ReturnedData> {
     return new Promise((resolve, reject) => {
         try {
             window.fetch(resource_url, {mode: 'cors'})
-                .then((response) => {
+                .then((response) :Promise<Blob|ReturnedData> => {
                     content_type = response.headers.get('Content-type');
-                    if (response.ok) {
+                    if (response.ok && content_type === ndjson_content_type) {
+                        // The server streams the progress and, finally, the result
+                        return read_stream(response);
+                    } else if (response.ok) {
                         fname = response.headers.get('Content-Disposition').split(';')[1].split('=')[1]
                         return response.blob()
                     } else {
@@ -89,12 +244,16 @@ async function fetch_book(resource_url :string) :Promise<ReturnedData> {
                         }
                     }
                 })
-                .then((content => {
-                    resolve({
-                        content_type : content_type,
-                        file_name    : fname,
-                        content      : content
-                    });
+                .then(((content :Blob|ReturnedData) => {
+                    if (content instanceof Blob) {
+                        resolve({
+                            content_type : content_type,
+                            file_name    : fname,
+                            content      : content
+                        });
+                    } else {
+                        resolve(content);
+                    }
                 }))
                 .catch((err) => {
                     reject(new Error(`Problem accessing: ${err}`));
@@ -163,7 +322,8 @@ const submit = async (event :Event) :Promise<any> => {
 
             const query :string[] = [
                 `url=${url.value}`,
-                `respec=${respec.value === 'true'}`
+                `respec=${respec.value === 'true'}`,
+                `progress=true`
             ];
 
             if (publishDate.value !== '') {
@@ -184,6 +344,7 @@ const submit = async (event :Event) :Promise<any> => {
             const service_url = `${service}?${query.join('&')}`;
             try {
                 // turn on the progress bar at the bottom of the form
+                progress.removeAttribute('value');
                 progress.style.setProperty('visibility', 'visible');
 
                 // const content = await (await window.fetch(service_url)).blob();
@@ -192,7 +353,7 @@ const submit = async (event :Event) :Promise<any> => {
                 if (returned.content_type === epub_content_type) {
                     save_book(returned.content, returned.file_name);
                 } else {
-                    const message = await returned.content.text();
+                    const message = await error_message(returned.content, returned.content_type);
                     alert(message);
                 }
 
@@ -200,10 +361,10 @@ const submit = async (event :Event) :Promise<any> => {
                 // document.location.search = '';
 
                 // Clean up the user interface and we are done!
-                progress.style.setProperty('visibility', 'hidden');
+                clear_progress();
                 if (returned.content_type === epub_content_type) fading_success();
             } catch(e) {
-                progress.style.setProperty('visibility', 'hidden');
+                clear_progress();
                 alert(`${e}`);
             }
         } else {
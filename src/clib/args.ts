@@ -38,21 +38,23 @@
 import Ajv           from 'ajv';
 import * as cConvert from './convert';
 import conf_schema   from './r2epub.schema.json';
+import { SchemaValidationError } from '../lib/errors';
 
 /**
  * Validates the input JSON configuration using the JSON schema, and converts the result to the internal data structure.
  *
  * @param data
- * @throws invalid schema, or schema validation error on the data
+ * @param url - the URL of the configuration file (used in the error messages)
+ * @throws [[SchemaValidationError]] on invalid data
  */
-export function get_book_configuration(data :any) :cConvert.CollectionConfiguration {
+export function get_book_configuration(data :any, url? :string) :cConvert.CollectionConfiguration {
     const ajv = new Ajv({
         "allErrors" : true,
     });
     const validator = ajv.compile(conf_schema);
     const valid = validator(data);
     if (!valid) {
-        throw `Schema validation error on the collection configuration file: \n${JSON.stringify(validator.errors,null,4)}\nValidation schema: https://github.com/iherman/r2epub/src/clib/r2epub.schema.json`
+        throw new SchemaValidationError(`Schema validation error on the collection configuration file: \n${JSON.stringify(validator.errors,null,4)}\nValidation schema: https://github.com/iherman/r2epub/src/clib/r2epub.schema.json`, validator.errors, url);
     } else {
         const chapters :cConvert.ChapterConfiguration[] = data.readingOrder.map((chapter :any) :cConvert.ChapterConfiguration => {
             const config :any = {};
@@ -15,6 +15,8 @@ import { Options }    from '../index';
 import * as ocf       from '../lib/ocf';
 import * as constants from '../lib/constants';
 import * as rConvert  from '../lib/convert';
+import * as fetch     from '../lib/fetch';
+import { R2EPUBError } from '../lib/errors';
 import * as cConvert  from './convert';
 import * as xmldom    from 'xmldom';
 import * as _         from 'underscore';
@@ -76,19 +78,25 @@ export class Chapter {
     private _nav                    :string;
     private _date                   :string;
     private _non_linear_spine_items :string[] = [];
+    private _linear_spine_items     :string[] = [];
     private _wcag_conforms          :boolean = false;
+    private _lang                   :string;
+    private _dir                    :string;
 
 
     /**
      *
      * @param args - arguments needed to create the chapter’s OCF.
      * @param first - whether this is the first chapter in the book. Necessary, for example, to transfer the items listed in [[transfer_once]] for a book.
+     * @param collection_options - options set for the whole collection, like the provider used to access the chapter’s document and its resources. The `respec` and `config` values are ignored, they are taken from `args`.
      */
-    constructor(args :cConvert.ChapterConfiguration, first :boolean = false) {
+    constructor(args :cConvert.ChapterConfiguration, first :boolean = false, collection_options :Options = {}) {
         this._url = args.url;
         this._options = {
-            respec : args.respec,
-            config : args.config
+            ...collection_options,
+            respec   : args.respec,
+            config   : args.config,
+            provider : collection_options.provider || fetch.default_provider
         }
         this._first_chapter = first;
     }
@@ -105,6 +113,7 @@ export class Chapter {
      * * The list of editors;
      * * The publication date;
      * * The publication title;
+     * * The language and the base direction;
      * * The navigation file’s content (as a text).
      *
      * @returns - the value of `this` for an easier management on the caller side.
@@ -112,7 +121,8 @@ export class Chapter {
      */
     async initialize() :Promise<Chapter> {
         // First and foremost: create the OCF container
-        this._ocf          = await (new rConvert.RespecToEPUB()).create_epub(this._url, this._options);
+        // (The NCX file, if requested, is generated for the whole book; the chapters do not need one)
+        this._ocf          = await (new rConvert.RespecToEPUB(false, false, { ...this._options, ncx : false })).create_epub(this._url, this._options);
         this._container    = this._ocf.book;
         // remove the `.epub` suffix for the name
         this._chapter_name = this._ocf.name.slice(0,-5);
@@ -165,10 +175,26 @@ export class Chapter {
         contents.forEach((content, index) => this._manifest[index].content = content)
 
         // ---------------------------------------------------------------------------------------
-        // Get the list of authors
+        // Get the language and the base direction (set on the package element from the chapter's document)
+        this._lang = package_dom.documentElement.getAttribute('xml:lang') || constants.default_language;
+        this._dir  = package_dom.documentElement.getAttribute('dir') || undefined;
+
+        // ---------------------------------------------------------------------------------------
+        // Get the list of editors; the other creators (i.e., the authors) are not transferred to the book
+        const roles :{[id :string] :string} = {};
+        const role_elements = package_dom.getElementsByTagName('meta');
+        for (let i = 0; i < role_elements.length; i++) {
+            const meta = role_elements[i];
+            if (meta.getAttribute('property') === 'role' && meta.hasAttribute('refines')) {
+                roles[meta.getAttribute('refines').slice(1)] = meta.textContent;
+            }
+        }
         const editors = package_dom.getElementsByTagName('dc:creator');
         for (let i = 0; i < editors.length; i++) {
-            this._editors.push(editors[i].textContent);
+            const role = roles[editors[i].getAttribute('id')];
+            if (role === undefined || role === 'edt') {
+                this._editors.push(editors[i].textContent);
+            }
         }
 
         // ---------------------------------------------------------------------------------------
@@ -200,12 +226,15 @@ export class Chapter {
         }
 
         // ---------------------------------------------------------------------------------------
-        // Get the non-linear spine items
+        // Get the non-linear spine items and, if the chapter is split, the linear spine items following the main content
         const itemref_elements = package_dom.getElementsByTagName('itemref');
         for (let i = 0; i < itemref_elements.length; i++) {
             const itemref = itemref_elements[i];
+            const idref   = itemref.getAttribute('idref');
             if (itemref.hasAttribute('linear') && itemref.getAttribute('linear') === 'no') {
-                this._non_linear_spine_items.push(itemref.getAttribute('idref'));
+                this._non_linear_spine_items.push(idref);
+            } else if (idref !== 'start' && idref !== 'main') {
+                this._linear_spine_items.push(idref);
             }
         }
 
@@ -227,7 +256,7 @@ export class Chapter {
     }
 
     /**
-     * Convert the Overview.xhtml file by converting the possible mutual references to other chapters
+     * Convert the Overview.xhtml file (and, if the chapter is split, the other content files) by converting the possible mutual references to other chapters
      * @param target
      */
     private handle_cross_references(overview :string, target :cConvert.Collection) :string {
@@ -248,8 +277,9 @@ export class Chapter {
     /**
      * Store all the manifest items in the book, represented by its target OCF. This is based on the list collected in [[initialize]].
      * @param target - the target publication
+     * @returns - the number of items stored
      */
-    store_manifest_items(target :cConvert.Collection) :void {
+    store_manifest_items(target :cConvert.Collection) :number {
         const target_ocf :ocf.OCF = target.ocf;
         interface Option {
             compression :string,
@@ -263,11 +293,12 @@ export class Chapter {
                 option.base64 = true;
             }
             // store the value; note that the name is expanded to store the files in the separate folder for that chapter
-            // Note the the Overview.xhtml file needs a special treatment...
+            // Note the the Overview.xhtml file (and the other content files of a split chapter) needs a special treatment...
             target_ocf.book.file(this.set_name(item.href),
-                                 item.href === 'Overview.xhtml' ? this.handle_cross_references(item.content, target) : item.content,
+                                 /^Overview(-\d+)?\.xhtml$/.test(item.href) ? this.handle_cross_references(item.content, target) : item.content,
                                  option);
         });
+        return this._manifest.length;
     }
 
     /**
@@ -275,7 +306,7 @@ export class Chapter {
      */
     get date() :string {
         if (this._ocf === undefined) {
-            throw `Chapter '${this._url}' has not been initialized`
+            throw new R2EPUBError(`Chapter '${this._url}' has not been initialized`, 'INTERNAL', this._url);
         }
         return this._date
     }
@@ -285,7 +316,7 @@ export class Chapter {
      */
     get editors() :string[] {
         if (this._ocf === undefined) {
-            throw `Chapter '${this._url}' has not been initialized`
+            throw new R2EPUBError(`Chapter '${this._url}' has not been initialized`, 'INTERNAL', this._url);
         }
         return this._editors;
     }
@@ -295,7 +326,7 @@ export class Chapter {
      */
     get nav() :string {
         if (this._ocf === undefined) {
-            throw `Chapter '${this._url}' has not been initialized`
+            throw new R2EPUBError(`Chapter '${this._url}' has not been initialized`, 'INTERNAL', this._url);
         }
         return this._nav;
     }
@@ -305,7 +336,7 @@ export class Chapter {
      */
     get name()  :string {
         if (this._ocf === undefined) {
-            throw `Chapter '${this._url}' has not been initialized`
+            throw new R2EPUBError(`Chapter '${this._url}' has not been initialized`, 'INTERNAL', this._url);
         }
         return this._chapter_name;
     }
@@ -315,7 +346,7 @@ export class Chapter {
      */
     get opf_items() :OPFManifestItem[] {
         if (this._ocf === undefined) {
-            throw `Chapter '${this._url}' has not been initialized`
+            throw new R2EPUBError(`Chapter '${this._url}' has not been initialized`, 'INTERNAL', this._url);
         }
         return this._manifest.map((item :ManifestItem) :OPFManifestItem => {
             return {
@@ -334,6 +365,14 @@ export class Chapter {
         return this._non_linear_spine_items;
     }
 
+    /**
+     * The list of linear spine items following the main content (ie, the idref values), necessary to build the new OPF content. This list is empty unless the chapter is split
+     * into several content files.
+     */
+    get linear_spine_items() :string[] {
+        return this._linear_spine_items;
+    }
+
     /**
      * The chapter’s name as a string.
      */
@@ -346,7 +385,7 @@ export class Chapter {
      */
     get title() :string {
         if (this._ocf === undefined) {
-            throw `Chapter '${this._url}' has not been initialized`
+            throw new R2EPUBError(`Chapter '${this._url}' has not been initialized`, 'INTERNAL', this._url);
         }
         return this._title;
     }
@@ -358,6 +397,20 @@ export class Chapter {
         return this._first_chapter;
     }
 
+    /**
+     * The language of the chapter.
+     */
+    get lang() :string {
+        return this._lang;
+    }
+
+    /**
+     * The base direction of the chapter (`ltr` or `rtl`), if set.
+     */
+    get dir() :string {
+        return this._dir;
+    }
+
     /**
      * Conforms to WCAG Level A
      */
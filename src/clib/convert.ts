@@ -34,6 +34,9 @@ import * as opf         from './opf';
 import * as cover       from './cover';
 import * as args        from './args';
 import * as _           from 'underscore';
+import { to_r2epub_error } from '../lib/errors';
+import { report, for_chapter, byte_length } from '../lib/progress';
+import { create_ncx }   from '../lib/ncx';
 
 /**
  * Arguments used by the internal conversion functions; just combining the possible options with the URL for a more compact handling.
@@ -69,6 +72,10 @@ export interface Collection {
     editors?   :string[];
     /** Date of publication: the most recent date among the constituent chapter. */
     date?      :string,
+    /** Language of the publication: the language of the first chapter. */
+    lang?      :string,
+    /** Base direction of the publication, if set: the base direction of the first chapter. */
+    dir?       :string,
     /** The [OCF instance](https://iherman.github.io/r2epub/typedoc/modules/_lib_ocf_.html) of the target book. */
     ocf        :ocf.OCF;
     /** Representations of the individual chapters. */
@@ -80,14 +87,21 @@ export interface Collection {
  *
  * @async
  * @param book_data - user supplied configuration data
+ * @param options - options for the whole collection (e.g., the resource provider or the ReSpec processor)
  * @returns the [[Collection]] structure with all [[Chapter]] entries properly initialized.
  */
-const generate_book_data = async (book_data: CollectionConfiguration) :Promise<Collection> => {
+const generate_book_data = async (book_data: CollectionConfiguration, options :Options) :Promise<Collection> => {
     // Just to make things more readable, I take the steps separately instead of putting directly into the return value...
     // 1. An array of chapters is created from the argument data
     // 2. Each chapter is initialized. Initialization is async, ie, each of these steps create a Promise.
     //    Note that the first chapter is signalled so that the common files (logo, css for cover page, etc) are also transferred to the final book, but only once.
-    const promises :Promise<Chapter>[] = book_data.readingOrder.map((chapter_data :ChapterConfiguration, index :number) :Promise<Chapter> => (new Chapter(chapter_data, index === 0)).initialize());
+    //    Errors are marked with the index of the chapter (and with its URL, unless an individual resource of the chapter is the culprit); so are the progress events.
+    const promises :Promise<Chapter>[] = book_data.readingOrder.map((chapter_data :ChapterConfiguration, index :number) :Promise<Chapter> => {
+        const chapter_options :Options = { ...options, progress : for_chapter(options.progress, index) };
+        return (new Chapter(chapter_data, index === 0, chapter_options)).initialize().catch((err :any) :never => {
+            throw to_r2epub_error(err, chapter_data.url, index);
+        });
+    });
 
     // 3. Sync at this point by waiting for all Promises to resolve, yielding the list of chapters.
     const chapters :Chapter[] = await Promise.all(promises);
@@ -106,7 +120,9 @@ const generate_book_data = async (book_data: CollectionConfiguration) :Promise<C
         name     : book_data.id,
         editors  : _.unique(editors),
         date     : date,
-        ocf      : new ocf.OCF(`${book_data.id}.epub`),
+        lang     : chapters[0].lang,
+        dir      : chapters[0].dir,
+        ocf      : new ocf.OCF(`${book_data.id}.epub`, options.reproducible),
         chapters : chapters
     }
 }
@@ -119,39 +135,55 @@ const generate_book_data = async (book_data: CollectionConfiguration) :Promise<C
  * 1. Convert the user JSON configuration to the internal data structure (see [[get_book_configuration]]) and collect the data for the output target (see [[generate_book_data]]);
  * 2. Create (and store in the target’s OCF) the package file (see [[create_opf]]);
  * 3. Create (and store in the target’s OCF) the cover page (see [create_cover_page](../modules/_clib_cover_.html#create_cover_page));
- * 4. Create (and store in the target’s OCF) the navigation file for the whole book (see [[create_nav_page]]);
+ * 4. Create (and store in the target’s OCF) the navigation file for the whole book (see [[create_nav_page]]) and, if requested, the legacy NCX file derived from it (see [create_ncx](../modules/_lib_ncx_.html#create_ncx));
  * 5. Collect, from each [[Chapter]] the real content from the chapter’s OCF and copy it to the target’s OCF (with modified file path values).
  *
  * @async
  * @param config_url - the user supplied data, i.e., the result of JSON parsing of the input argument
+ * @param options - options for the whole collection, like the resource provider or the ReSpec processor; the `respec` and `config` options are ignored, they are set per chapter in the configuration file
  * @param trace whether tracing is set (for debugging)
  * @param print_package whether the package stops at the creation of an EPUB content and displays the content of the OPF file itself (for debugging)
+ * @param content the content of the configuration file, if it has already been fetched (it is then not fetched again)
  * @returns a Promise holding the final [OCF](https://iherman.github.io/r2epub/typedoc/classes/_lib_ocf_.ocf.html) content.
  */
-export async function create_epub(config_url: string, trace :boolean = false, print_package: boolean = false) :Promise<ocf.OCF> {
-    const data :any = await fetch.fetch_json(config_url);
+export async function create_epub(config_url: string, options :Options = {}, trace :boolean = false, print_package: boolean = false, content :string = undefined) :Promise<ocf.OCF> {
+    report(options.progress, { phase : 'fetch_document', status : 'start', url : config_url });
+    const data :any = content !== undefined ? fetch.parse_json(content, config_url) : await fetch.fetch_json(config_url, options.provider);
+    report(options.progress, { phase : 'fetch_document', status : 'end', url : config_url, resources : 1 });
 
     // check, via a JSON schema, the validity of the input and create the right arguments
-    const book_data :CollectionConfiguration = args.get_book_configuration(data);
+    const book_data :CollectionConfiguration = args.get_book_configuration(data, config_url);
 
     // generate the skeleton of the book
-    const the_book :Collection = await generate_book_data(book_data);
+    const the_book :Collection = await generate_book_data(book_data, options);
 
     // Create the OPF file, the cover and nav pages, and store each of them in the book at
     // well specified places
-    const the_opf :string = opf.create_opf(the_book);
+    report(options.progress, { phase : 'package', status : 'start', url : config_url });
+    const the_opf :string = opf.create_opf(the_book, options.reproducible, options.ncx);
+    report(options.progress, { phase : 'package', status : 'end', url : config_url, resources : 1, bytes : byte_length(the_opf) });
     if (print_package) {
         console.log(the_opf);
         return {} as ocf.OCF;
     } else {
-        the_book.ocf.append(the_opf                          , 'package.opf');
-        the_book.ocf.append(cover.create_cover_page(the_book), 'cover.xhtml');
-        the_book.ocf.append(nav.create_nav_page(the_book)    , 'nav.xhtml');
+        report(options.progress, { phase : 'cover', status : 'start', url : config_url });
+        const the_cover :string = cover.create_cover_page(the_book);
+        report(options.progress, { phase : 'cover', status : 'end', url : config_url, resources : 1, bytes : byte_length(the_cover) });
+
+        report(options.progress, { phase : 'nav', status : 'start', url : config_url });
+        const the_nav :string = nav.create_nav_page(the_book, options.toc);
+        const the_ncx :string = options.ncx ? create_ncx(`urn:w3c:tr:${the_book.name}`, the_book.title, the_nav) : undefined;
+        report(options.progress, { phase : 'nav', status : 'end', url : config_url, resources : the_ncx ? 2 : 1, bytes : byte_length(the_nav) + (the_ncx ? byte_length(the_ncx) : 0) });
+
+        report(options.progress, { phase : 'zip', status : 'start', url : config_url });
+        the_book.ocf.append(the_opf   , 'package.opf');
+        the_book.ocf.append(the_cover , 'cover.xhtml');
+        the_book.ocf.append(the_nav   , 'nav.xhtml');
+        if (the_ncx) the_book.ocf.append(the_ncx, 'toc.ncx');
 
         // Store the data in the final zip file
-        the_book.chapters.forEach((chapter :Chapter) :void => {
-            chapter.store_manifest_items(the_book);
-        });
+        const stored :number = the_book.chapters.reduce((total :number, chapter :Chapter) :number => total + chapter.store_manifest_items(the_book), the_ncx ? 4 : 3);
+        report(options.progress, { phase : 'zip', status : 'end', url : config_url, resources : stored });
         return the_book.ocf;
     }
 }
@@ -11,6 +11,7 @@
   */
 
 import * as cConvert from './convert';
+import * as xhtml    from '../lib/xhtml';
 
 /**
  * @hidden
@@ -26,7 +27,7 @@ const months :string[] = [
  */
 const cover = `<?xml version="1.0" encoding="utf-8"?>
 <!DOCTYPE html>
-<html lang="en-us" xmlns="http://www.w3.org/1999/xhtml">
+<html%%%LANG%%% xmlns="http://www.w3.org/1999/xhtml">
   <head>
     <meta charset="utf-8" />
     <title>%%%TITLE1%%%</title>
@@ -74,7 +75,7 @@ const cover = `<?xml version="1.0" encoding="utf-8"?>
       <h1 id="btitle">%%%TITLE2%%%</h1>
       <p class="larger" id="editors">%%%EDITORS%%%</p>
       <p class="logo"><a href="http://www.w3.org/"><img alt="W3C main logo" src="Icons/w3c_main.png"/></a></p>
-      <p class="copyright"><a href="http://www.w3.org/Consortium/Legal/ipr-notice#Copyright">Copyright</a>
+      <p class="copyright" lang="en" xml:lang="en" dir="ltr"><a href="http://www.w3.org/Consortium/Legal/ipr-notice#Copyright">Copyright</a>
       © of the original documents: <time id="cpdate" datetime="%%%%ISODATE%%%%">%%%DATE%%%</time> W3C<sup>®</sup> (<a href="http://www.mit.edu">MIT</a>, <a href="http://www.ercim.eu/">ERCIM</a>,
       <a href="http://www.keio.ac.jp/">Keio</a>, <a href="http://ev.buaa.edu.cn/">Beihang</a>).<br/>
       All right reserved. W3C <a href="http://www.w3.org/Consortium/Legal/ipr-notice#Legal_Disclaimer">liability</a>,
@@ -88,7 +89,8 @@ const cover = `<?xml version="1.0" encoding="utf-8"?>
 /**
  * Create the HTML content for a cover page.
  *
- * The title originates from the JSON configuration; the editors and the date are collected from the chapters.
+ * The title originates from the JSON configuration; the editors and the date are collected from the chapters. The language and the base direction are those of the book
+ * (i.e., of the first chapter).
  *
  *
  * @param book - the full book data
@@ -102,6 +104,7 @@ export function create_cover_page(book :cConvert.Collection) :string {
     }
 
     return cover
+        .replace('%%%LANG%%%', xhtml.lang_attributes(book.lang, book.dir))
         .replace('%%%TITLE1%%%', book.title)
         .replace('%%%TITLE2%%%', book.title)
         .replace('%%%EDITORS%%%', book.editors.join('; '))
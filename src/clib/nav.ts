@@ -14,6 +14,8 @@
 import * as jsdom    from 'jsdom';
 import * as cConvert from './convert';
 import { Chapter }   from './chapter';
+import { NavEntry, TOCOptions, nav_list, trim_toc } from '../lib/nav';
+import * as xhtml    from '../lib/xhtml';
 
 
 /**
@@ -22,7 +24,7 @@ import { Chapter }   from './chapter';
  * @hidden
  */
 const nav :string = `<?xml version="1.0"?>
-<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"%%%LANG%%%>
     <head>
         <title>
             %%%Title%%% — Contents
@@ -42,11 +44,27 @@ const nav :string = `<?xml version="1.0"?>
 %%%TOC%%%
         </ol>
         </nav>
+        <nav epub:type="landmarks" id="landmarks" hidden="hidden">
+            <h2>Landmarks</h2>
+%%%LANDMARKS%%%
+        </nav>
+%%%PAGELIST%%%
      </body>
 </html>
 `
 
 
+/**
+ * Template of the page list navigation
+ *
+ * @hidden
+ */
+const page_list_nav :string = `        <nav epub:type="page-list" id="page-list" hidden="hidden">
+            <h2>Pages</h2>
+%%%PAGES%%%
+        </nav>`
+
+
 /**
  * Create the HTML navigation page.
  *
@@ -55,19 +73,71 @@ const nav :string = `<?xml version="1.0"?>
  *
  * Note that the links to the real content must be modified on the fly, because the original chapters are all put into a separate subdirectory.
  *
+ * The landmarks are also merged: the cover page of the book and the start of the body matter of the first chapter are followed by the other landmarks of each chapter
+ * (table of contents, abstract, etc.), their labels prefixed by the chapter’s title. The page lists of the chapters, if any, are concatenated.
+ *
+ * The language and the base direction of the navigation page are those of the book; the entries of the chapters with a different language or direction are marked accordingly.
+ *
+ * If the depth of the table of contents is limited (see [TOCOptions](../interfaces/_lib_nav_.tocoptions.html)), the limit applies to the merged structure, i.e., the chapter entries
+ * count as the first level. (The appendices and the non-normative sections, if requested, have already been removed from the navigation files of the chapters.)
+ *
  * @param book - the full book data
+ * @param toc - the settings for the table of contents; if `null`, the tables of contents of the chapters are merged unchanged
  * @returns - a text representation of the nav xhtml file.
  */
-export function create_nav_page(book :cConvert.Collection) :string {
+export function create_nav_page(book :cConvert.Collection, toc :TOCOptions = null) :string {
+    const landmarks :NavEntry[] = [{ type : 'cover', href : 'cover.xhtml', label : 'Cover' }];
+    const pages     :NavEntry[] = [];
+
+    // Get the entries of a navigation list in a chapter; the links must be changed to refer to the relevant subdirectory
+    const get_entries = (chapter :Chapter, list :Element) :NavEntry[] => {
+        if (list === null) return [];
+        return Array.from(list.querySelectorAll('a')).map((a :Element) :NavEntry => {
+            return {
+                type  : a.getAttribute('epub:type') || undefined,
+                href  : `${chapter.chapter_name}/${a.getAttribute('href')}`,
+                label : a.textContent
+            };
+        });
+    }
+
     const get_nav_text = (chapter :Chapter) :string => {
         // Get the nav file from the chapter
         const dom  = new jsdom.JSDOM(chapter.nav);
         let html = dom.window.document.documentElement.querySelector('nav#toc > ol').innerHTML;
         // the link elements must be changed to refer to the relevant subdirectory!
-        let html_final = html.replace(/"Overview.xhtml/g, `"${chapter.chapter_name}/Overview.xhtml`)
-        return `<li><a href="${chapter.chapter_name}/Overview.xhtml">${chapter.title}</a><ol>${html_final}</ol></li>`;
+        let html_final = html.replace(/"(Overview(-\d+)?\.xhtml)/g, `"${chapter.chapter_name}/$1`)
+
+        // Collect the landmarks and the pages
+        get_entries(chapter, dom.window.document.querySelector('nav#landmarks')).forEach((entry :NavEntry) :void => {
+            if (entry.type === 'bodymatter') {
+                if (chapter.first_chapter) landmarks.push(entry);
+            } else if (entry.type !== 'cover') {
+                landmarks.push({ ...entry, label : `${chapter.title}: ${entry.label}` });
+            }
+        });
+        pages.push(...get_entries(chapter, dom.window.document.querySelector('nav#page-list')));
+
+        // The language and the base direction of the chapter's entries are set if they differ from the book's
+        const lang = (chapter.lang !== book.lang || chapter.dir !== book.dir) ? xhtml.lang_attributes(chapter.lang, chapter.dir || 'auto') : '';
+        return `<li${lang}><a href="${chapter.chapter_name}/Overview.xhtml">${chapter.title}</a><ol>${html_final}</ol></li>`;
+    }
+
+    const document = (new jsdom.JSDOM('')).window.document;
+
+    let full_nav :string = book.chapters.map(get_nav_text).join('\n');
+    if (toc && toc.maxDepth) {
+        const toc_ol = document.createElement('ol');
+        toc_ol.innerHTML = full_nav;
+        trim_toc(toc_ol, toc.maxDepth, toc.flatten);
+        full_nav = toc_ol.innerHTML;
     }
+    const page_list = pages.length === 0 ? '' : page_list_nav.replace('%%%PAGES%%%', () :string => nav_list(document, pages));
 
-    const full_nav :string = book.chapters.map(get_nav_text).join('\n');
-    return nav.replace('%%%Title%%%', book.title).replace('%%%TOC%%%',full_nav);
+    return nav
+        .replace('%%%LANG%%%', xhtml.lang_attributes(book.lang, book.dir))
+        .replace('%%%Title%%%', book.title)
+        .replace('%%%TOC%%%',full_nav)
+        .replace('%%%LANDMARKS%%%', () :string => nav_list(document, landmarks))
+        .replace('%%%PAGELIST%%%', () :string => page_list);
  }
@@ -21,23 +21,28 @@ import { Chapter, OPFManifestItem } from './chapter';
  *
  * The method
  *
- * 1. Stores the stable files like cover and nav in the package;
+ * 1. Stores the stable files like cover and nav (and, if requested, the NCX file) in the package;
  * 2. Collects the dates and editors from the book and adds that to the package;
  * 3. Collects the manifest item data for each package and adds it to the new package;
- * 4. Adds the manifest items and the linear spine items.
+ * 4. Adds the manifest items and the linear spine items (including the additional content files of the chapters that are split).
  * 5. Adds the non-linear spine items.
  * 6. Sets the wcag conformance if all chapters are conform
  *
  * Note that the internal structure of the final book, reflected in the modified manifest items, means putting each chapter into its own subdirectory, named after the chapter’s short name.
  *
  * @param book - the final book data
+ * @param reproducible - whether the manifest items should be sorted, for a reproducible output
+ * @param ncx - whether the book includes a legacy NCX file
  * @returns - the Package file in textual format
  */
-export function create_opf(book :cConvert.Collection) :string {
+export function create_opf(book :cConvert.Collection, reproducible :boolean = false, ncx :boolean = false) :string {
     // Create the OPF file
     // The identifier of the final publication cannot be a URL, unfortunately. For the time being
     // some sort of a unique id is used, but that should be thought through at some point...
-    const the_opf :opf.PackageWrapper = new opf.PackageWrapper(`urn:w3c:tr:${book.name}`, book.title);
+    const the_opf :opf.PackageWrapper = new opf.PackageWrapper(`urn:w3c:tr:${book.name}`, book.title, reproducible, book.lang, book.dir);
+
+    // The language of the book is the one of the first chapter, but the others are listed, too
+    the_opf.add_languages(book.chapters.map((chapter :Chapter) :string => chapter.lang));
 
     // 1. editors should be collected from the chapters; this was done when initializing the book
      the_opf.add_creators(book.editors);
@@ -57,6 +62,14 @@ export function create_opf(book :cConvert.Collection) :string {
         "@media-type" : constants.media_types.xhtml,
         "@properties" : "nav"
     })
+    if (ncx) {
+        the_opf.add_manifest_item({
+            "@href"       : "toc.ncx",
+            "@id"         : "ncx",
+            "@media-type" : constants.media_types.ncx
+        });
+        the_opf.set_toc('ncx');
+    }
 
     // 4. the manifest data must be collected from the chapters and added to the opf file.
     // The 'overview' files are added to the spine on the fly
@@ -86,6 +99,10 @@ export function create_opf(book :cConvert.Collection) :string {
                 "@properties" : item.properties
             });
         })
+        // The additional content files of a split chapter follow the main one
+        chapter.linear_spine_items.forEach((itemref :string) :void => {
+            the_opf.add_spine_item(`${chapter.name}_${itemref}`);
+        })
     });
 
     // 5. the extra spine data must be collected from the chapters and added to the opf file
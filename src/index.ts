@@ -3,7 +3,7 @@
  *
  * r2epub can be used as a library module both to TypeScript and to Javascript. The externally visible entities are listed below; see their respective documentations for further information.
  *
- * The top level functional entry point to the package is [[convert]].
+ * The top level functional entry point to the package is [[convert]]. HTML content that is not accessible via a URL can be converted through [[convertFromHTML]] or [[convertFromFile]].
  *
  * @packageDocumentation
 */
@@ -18,8 +18,22 @@ import * as ocf        from './lib/ocf';
 import * as rConvert   from './lib/convert';
 import * as cConvert   from './clib/convert';
 import * as fetch      from './lib/fetch';
+import * as provider   from './lib/provider';
+import * as cache      from './lib/cache';
+import * as scheduler  from './lib/scheduler';
+import * as respec     from './lib/respec';
+import * as errors     from './lib/errors';
+import * as progress   from './lib/progress';
+import * as validation from './lib/validate';
+import * as remote     from './lib/remote';
+import * as images     from './lib/images';
+import * as scripts    from './lib/scripts';
+import * as nav        from './lib/nav';
 import * as _          from 'underscore';
 import * as urlHandler from 'url';
+import * as jsdom      from 'jsdom';
+import * as path       from 'path';
+import * as fs         from 'fs';
 
 
 /**
@@ -33,18 +47,159 @@ export class RespecToEPUB  extends rConvert.RespecToEPUB {};
  */
 export class OCF extends ocf.OCF {};
 
+/**
+ * Convenience export of the [ResourceProvider](../interfaces/_lib_provider_.resourceprovider.html) interface: the conversion accesses the document and all its resources through such a provider (see [[Options.provider]]).
+ */
+export type ResourceProvider = provider.ResourceProvider;
+
+/**
+ * Convenience class to export the internal [HTTPProvider](../classes/_lib_fetch_.httpprovider.html) class: resources are fetched on the Web. This is the default provider.
+ */
+export class HTTPProvider extends fetch.HTTPProvider {};
+
+/**
+ * Convenience class to export the internal [HTTPCache](../classes/_lib_cache_.httpcache.html) class: on-disk cache for an [[HTTPProvider]].
+ */
+export class HTTPCache extends cache.HTTPCache {};
+
+/**
+ * Convenience export of the [CacheMode](../modules/_lib_cache_.html#cachemode) type: modes of operation of an [[HTTPCache]].
+ */
+export type CacheMode = cache.CacheMode;
+
+/**
+ * Convenience class to export the internal [Scheduler](../classes/_lib_scheduler_.scheduler.html) class: limits the number of parallel requests per host, sets timeouts and retries failing requests of an [[HTTPProvider]].
+ */
+export class Scheduler extends scheduler.Scheduler {};
+
+/**
+ * Convenience export of the [SchedulerOptions](../interfaces/_lib_scheduler_.scheduleroptions.html) interface: settings of a [[Scheduler]].
+ */
+export type SchedulerOptions = scheduler.SchedulerOptions;
+
+/**
+ * Convenience class to export the internal [DirectoryProvider](../classes/_lib_provider_.directoryprovider.html) class: resources are read from local directories.
+ */
+export class DirectoryProvider extends provider.DirectoryProvider {};
+
+/**
+ * Convenience class to export the internal [MemoryProvider](../classes/_lib_provider_.memoryprovider.html) class: resources are stored in memory.
+ */
+export class MemoryProvider extends provider.MemoryProvider {};
+
+
+/**
+ * Convenience export of the [RespecProcessor](../interfaces/_lib_respec_.respecprocessor.html) interface: the ReSpec sources are processed by such a processor (see [[Options.processor]]).
+ */
+export type RespecProcessor = respec.RespecProcessor;
+
+/**
+ * Convenience class to export the internal [SpecGeneratorProcessor](../classes/_lib_respec_.specgeneratorprocessor.html) class: ReSpec processing via the W3C spec generator service. This is the default processor.
+ */
+export class SpecGeneratorProcessor extends respec.SpecGeneratorProcessor {};
+
+/**
+ * Convenience class to export the internal [LocalProcessor](../classes/_lib_respec_.localprocessor.html) class: ReSpec processing via a local process.
+ */
+export class LocalProcessor extends respec.LocalProcessor {};
+
+/**
+ * Convenience class to export the internal [StubProcessor](../classes/_lib_respec_.stubprocessor.html) class: no ReSpec processing, for testing.
+ */
+export class StubProcessor extends respec.StubProcessor {};
+
+/**
+ * Export of the [R2EPUBError](../classes/_lib_errors_.r2epuberror.html) class: all errors raised by the conversion are instances of this class, with a stable [error code](../modules/_lib_errors_.html#errorcode).
+ * (Unlike the other classes, this is not a subclass, so that `instanceof` checks work on the errors raised internally.)
+ */
+export import R2EPUBError = errors.R2EPUBError;
+
+/**
+ * Export of the [FetchError](../classes/_lib_errors_.fetcherror.html) class: a resource could not be retrieved.
+ */
+export import FetchError = errors.FetchError;
+
+/**
+ * Export of the [MissingConfigError](../classes/_lib_errors_.missingconfigerror.html) class: the ReSpec configuration is missing from a document.
+ */
+export import MissingConfigError = errors.MissingConfigError;
+
+/**
+ * Export of the [MissingTOCError](../classes/_lib_errors_.missingtocerror.html) class: the table of contents is missing from a document.
+ */
+export import MissingTOCError = errors.MissingTOCError;
+
+/**
+ * Export of the [SchemaValidationError](../classes/_lib_errors_.schemavalidationerror.html) class: the collection configuration file is invalid.
+ */
+export import SchemaValidationError = errors.SchemaValidationError;
+
+/**
+ * Export of the [UnsupportedMediaTypeError](../classes/_lib_errors_.unsupportedmediatypeerror.html) class: the document is neither (X)HTML nor JSON.
+ */
+export import UnsupportedMediaTypeError = errors.UnsupportedMediaTypeError;
+
+/**
+ * Convenience export of the [ErrorCode](../modules/_lib_errors_.html#errorcode) type: the stable codes of the [[R2EPUBError]] instances.
+ */
+export type ErrorCode = errors.ErrorCode;
+
+/**
+ * Convenience export of the [ProgressEvent](../interfaces/_lib_progress_.progressevent.html) interface: the events reported to a [[ProgressListener]].
+ */
+export type ProgressEvent = progress.ProgressEvent;
+
+/**
+ * Convenience export of the [ProgressListener](../modules/_lib_progress_.html#progresslistener) type: callback receiving the progress events (see [[Options.progress]]).
+ */
+export type ProgressListener = progress.ProgressListener;
+
+/**
+ * Convenience export of the [Phase](../modules/_lib_progress_.html#phase) type: the phases of a conversion, as reported in a [[ProgressEvent]].
+ */
+export type Phase = progress.Phase;
+
+/**
+ * Convenience export of the [ValidationReport](../interfaces/_lib_validate_.validationreport.html) interface: result of [[validate]].
+ */
+export type ValidationReport = validation.ValidationReport;
+
+/**
+ * Convenience export of the [ValidationMessage](../interfaces/_lib_validate_.validationmessage.html) interface: a single message in a [[ValidationReport]].
+ */
+export type ValidationMessage = validation.ValidationMessage;
+
+/**
+ * Convenience export of the [RemotePolicy](../modules/_lib_remote_.html#remotepolicy) type: the handling of the media resources with absolute URLs (see [[Options.remote]]).
+ */
+export type RemotePolicy = remote.RemotePolicy;
+
+/**
+ * Convenience export of the [ImageOptions](../interfaces/_lib_images_.imageoptions.html) interface: the settings of the image optimization (see [[Options.images]]).
+ */
+export type ImageOptions = images.ImageOptions;
+
+/**
+ * Convenience export of the [TOCOptions](../interfaces/_lib_nav_.tocoptions.html) interface: the settings for the table of contents of the navigation file (see [[Options.toc]]).
+ */
+export type TOCOptions = nav.TOCOptions;
+
+/**
+ * Convenience export of the [ScriptPolicy](../modules/_lib_scripts_.html#scriptpolicy) type: the handling of the scripts in the document (see [[Options.scripts]]).
+ */
+export type ScriptPolicy = scripts.ScriptPolicy;
 
 /**
  * Config options, to be used as part of the arguments in [[Options]] to overwrite the `config` options of ReSpec.
  */
-interface ConfigOptions {
+export interface ConfigOptions {
     [x :string] :string
 }
 
 /**
  * Options provided by the user if and when the source has to be pre-processed via ReSpec.
  *
- * The original content file has to be pre-processed via the W3C [spec generator service](https://labs.w3.org/spec-generator/)
+ * The original content file has to be pre-processed via ReSpec (by default, the W3C [spec generator service](https://labs.w3.org/spec-generator/), see [[Options.processor]])
  * before further processing to convert the ReSpec source first. If that is the case (see [[Options.respec]]), it is also possible to set some of the ReSpec configuration options,
  * overwriting the values set in the `config` entry of the original file. The possible ReSpec options to be set are `publishDate`, `specStatus`, `addSectionLinks`, and `maxTocLevel`.
  * See the [ReSpec editor's guide](https://github.com/w3c/respec/wiki/ReSpec-Editor's-Guide) for details.
@@ -58,60 +213,231 @@ export interface Options {
     /**
      * Collection of respec config options, to be used with the spec generator (if applicable).
      */
-    config? :ConfigOptions
+    config? :ConfigOptions,
+    /**
+     * The processor used to run ReSpec on the source (if applicable). If not set, the W3C spec generator service is used.
+     */
+    processor? :respec.RespecProcessor,
+    /**
+     * The provider used to access the document and all its resources. If not set, the resources are fetched on the Web.
+     * (See [[DirectoryProvider]] and [[MemoryProvider]] for alternatives that do not require network access.)
+     */
+    provider? :provider.ResourceProvider,
+    /**
+     * Settings for the network requests: number of parallel requests per host, number of retries, and timeout. These settings are only used if
+     * [[Options.provider]] is not set; otherwise the scheduler of the provider itself is used.
+     */
+    network? :scheduler.SchedulerOptions,
+    /**
+     * Listener for the progress of the conversion: it is called at the start and at the end of each conversion phase (see [[ProgressEvent]]).
+     */
+    progress? :progress.ProgressListener,
+    /**
+     * Generate a reproducible output: the same input yields a byte-for-byte identical EPUB file. The files in the zip archive have a fixed date and are stored in alphabetical order,
+     * the manifest is sorted, and the manifest ids of the resources are derived from their paths. Default: `false`.
+     */
+    reproducible? :boolean,
+    /**
+     * The handling of media resources (images, audio, video, etc.) referred to via absolute URLs: keep them remote (`keep`, the default), download and store them in the EPUB file
+     * (`embed`), or remove the references (`strip`), replacing images by their alternate text and audio or video by a link. With `embed` or `strip` the book can be read offline.
+     */
+    remote? :remote.RemotePolicy,
+    /**
+     * Optimize the PNG and JPEG images before storing them in the EPUB file: remove their metadata, recompress (PNG) or re-encode (JPEG) them, and scale down the images beyond a maximal size
+     * (see the [image module](../modules/_lib_images_.html) for the details). If not set, the images are stored unchanged.
+     */
+    images? :images.ImageOptions,
+    /**
+     * The handling of the scripts in the document: keep them (`keep`, the default), or remove them (`strip`). In the latter case the executable scripts, the event handler attributes, and
+     * the script files are removed, and the content of `<noscript>` elements is displayed; data blocks (e.g., the ReSpec configuration) are kept. The content generated by the W3C fixup script
+     * and by the scripts added by ReSpec is materialized beforehand. The resulting book is not `scripted`.
+     */
+    scripts? :scripts.ScriptPolicy,
+    /**
+     * Split the document into several content documents: the front matter (up to the table of contents) and one file per top level section (see the [split module](../modules/_lib_split_.html)).
+     * Some reading systems handle smaller files faster. Default: `false`.
+     */
+    split? :boolean,
+    /**
+     * Add a legacy NCX file (`toc.ncx`) for EPUB 2 reading systems, derived from the table of contents of the navigation file (see the [ncx module](../modules/_lib_ncx_.html)). Default: `false`.
+     */
+    ncx? :boolean,
+    /**
+     * Adjust the table of contents of the navigation file: limit its depth, and leave out the appendices and/or the non-normative sections (see the
+     * [nav module](../modules/_lib_nav_.html) for the details). This works on the final HTML, i.e., without re-running ReSpec. If not set, the table of contents of the document is copied unchanged.
+     */
+    toc? :nav.TOCOptions
+}
+
+/**
+ * Options for the conversion of an HTML content that is not accessed via a URL (see [[convertFromHTML]] and [[convertFromFile]]).
+ */
+export interface HTMLOptions extends Options {
+    /**
+     * Base URL of the content, i.e., the URL relative references are resolved against.
+     */
+    baseURL? :string
 }
 
 
+/**
+ * Return an [[Options]] instance with all defaults filled in.
+ *
+ * @hidden
+ */
+const fill_default_options = (options: Options) :Options => {
+    const defaultConfig :ConfigOptions = {
+        publishDate     : null,
+        specStatus      : null,
+        addSectionLinks : null,
+        maxTocLevel     : null
+    }
+    return {
+        respec       : options.respec === undefined || options.respec === null ? false : options.respec,
+        config       : _.defaults(options.config, defaultConfig),
+        processor    : options.processor || respec.default_processor,
+        provider     : options.provider || (options.network ? new fetch.HTTPProvider(null, new scheduler.Scheduler(options.network)) : fetch.default_provider),
+        progress     : options.progress,
+        reproducible : options.reproducible || false,
+        remote       : options.remote || 'keep',
+        images       : options.images || null,
+        scripts      : options.scripts || 'keep',
+        split        : options.split || false,
+        ncx          : options.ncx || false,
+        toc          : options.toc || null
+    };
+};
+
+
 /**
  * The top level entry in the package: convert a single Respec file, or a collection thereof, into an EPUB document.
  *
  * @async
  * @param url the URL of either the HTML content (if the target is a single document) or a JSON content (if the target is a collection of HTML documents)
- * @param options ReSpec options in case the source has to be preprocessed by ReSpec
+ * @param options ReSpec options in case the source has to be preprocessed by ReSpec, the resource provider, and network settings
  * @param t whether tracing is set (for debugging)
  * @param p whether the package stops at the creation of an EPUB content and displays the content of the OPF file itself (for debugging)
+ * @throws [[R2EPUBError]] (or one of its subclasses) with the relevant error code, URL, and, for collections, chapter index
  */
 export async function convert(url: string, options: Options = {}, t :boolean = false, p :boolean = false) :Promise<OCF> {
-    /*
-     * Return an [[Options]] instance with all defaults filled in.
-     *
-     */
-    const fill_default_options = (options: Options) :Options => {
-        const defaultConfig :ConfigOptions = {
-            publishDate     : null,
-            specStatus      : null,
-            addSectionLinks : null,
-            maxTocLevel     : null
-        }
-        return {
-            respec : options.respec === undefined || options.respec === null ? false : options.respec,
-            config : _.defaults(options.config, defaultConfig)
-        };
-    };
-
     // At the minimum, the URL part of the Arguments should exist, better check this
     if (url) {
         // Basic sanity check on the URL; secure that it is proper for relative URL-s
         const url_path = urlHandler.parse(url).path;
         const proper_ending :boolean = constants.acceptable_url_endings.map((ending :string) :boolean => url_path.endsWith(ending)).includes(true);
         if (proper_ending) {
-            let the_ocf :ocf.OCF;
-            const media_type :string = await fetch.fetch_type(url);
-            if (media_type === constants.media_types.json) {
-                // If the URL refers to a JSON file, it is the configuration file for a full collection.
-                the_ocf = await cConvert.create_epub(url, t, p);
-            } else if (media_type === constants.media_types.html || media_type === constants.media_types.xhtml) {
-                // Just a sanity check that the return type is indeed HTML
-                the_ocf = await (new rConvert.RespecToEPUB(t, p)).create_epub(url, fill_default_options(options));
-            } else {
-                throw "The URL should refer to an (X)HTML or a JSON content"
+            try {
+                let the_ocf :ocf.OCF;
+                const final_options :Options = fill_default_options(options);
+                // The document is fetched only once: its media type decides on the type of conversion, and its content is handed over
+                const resource = await fetch.fetch_resource_with_type(url, true, final_options.provider);
+                const media_type :string = resource.media_type;
+                if (media_type === constants.media_types.json) {
+                    // If the URL refers to a JSON file, it is the configuration file for a full collection.
+                    the_ocf = await cConvert.create_epub(url, final_options, t, p, resource.content);
+                } else if (media_type === constants.media_types.html || media_type === constants.media_types.xhtml) {
+                    // Just a sanity check that the return type is indeed HTML
+                    the_ocf = await (new rConvert.RespecToEPUB(t, p, final_options)).create_epub(url, final_options, resource.content);
+                } else {
+                    throw new errors.UnsupportedMediaTypeError(media_type, url);
+                }
+                return the_ocf;
+            } catch (err) {
+                // Make sure that the caller gets an R2EPUBError in all cases
+                throw errors.to_r2epub_error(err, url);
             }
-            return the_ocf;
         } else {
-            throw "The URL must end with '.(x)html', '.json', or the '/' character";
+            throw new errors.R2EPUBError("The URL must end with '.(x)html', '.json', or the '/' character", 'INVALID_ARGUMENT', url);
         }
     } else {
-        throw "No URL has been provided for the conversion";
+        throw new errors.R2EPUBError("No URL has been provided for the conversion", 'INVALID_ARGUMENT');
+    }
+}
+
+
+/**
+ * Convert an HTML content, available as a string or a Buffer, into an EPUB document. This is useful, e.g., to convert a draft that has not been saved or published anywhere.
+ *
+ * The content must be the final HTML, i.e., the output of ReSpec; setting [[Options.respec]] to `true` is an error.
+ * All relative references in the content are resolved against, and fetched via, the [[HTMLOptions.baseURL]] value, which is therefore required.
+ *
+ * @async
+ * @param html the HTML content
+ * @param options the base URL of the content, and other options (like the resource provider)
+ * @param t whether tracing is set (for debugging)
+ * @param p whether the package stops at the creation of an EPUB content and displays the content of the OPF file itself (for debugging)
+ */
+export async function convertFromHTML(html :string|Buffer, options :HTMLOptions = {}, t :boolean = false, p :boolean = false) :Promise<OCF> {
+    if (html === undefined || html === null || html.length === 0) {
+        throw new errors.R2EPUBError("No HTML content has been provided for the conversion", 'INVALID_ARGUMENT');
+    } else if (!options.baseURL) {
+        throw new errors.R2EPUBError("No base URL has been provided for the HTML content", 'INVALID_ARGUMENT');
+    } else if (options.respec) {
+        throw new errors.R2EPUBError("HTML content provided directly cannot be pre-processed by ReSpec; it must be the final HTML", 'INVALID_ARGUMENT', options.baseURL);
+    } else {
+        try {
+            const final_options :Options = fill_default_options(options);
+            const dom :jsdom.JSDOM = new jsdom.JSDOM(html, { url: options.baseURL });
+            return await (new rConvert.RespecToEPUB(t, p, final_options)).create_epub_from_dom(options.baseURL, dom);
+        } catch (err) {
+            throw errors.to_r2epub_error(err, options.baseURL);
+        }
     }
 }
 
+
+/**
+ * Convert an HTML file on the local file system into an EPUB document.
+ *
+ * The content must be the final HTML, i.e., the output of ReSpec; setting [[Options.respec]] to `true` is an error.
+ *
+ * The resources with relative references are read from the directory of the file: the provider is a [[DirectoryProvider]], mapping the base URL onto that directory,
+ * with the value of [[Options.provider]] (or the default provider) used as a fallback for all other resources. The base URL is [[HTMLOptions.baseURL]] if set (e.g., the URL the document will be published at),
+ * otherwise the `file:` URL of the directory. (If the base URL refers to a file, e.g., `https://www.example.org/spec/index.html`, the URL of its directory is mapped onto the directory of the file.)
+ *
+ * @async
+ * @param file_name the name of the HTML file
+ * @param options the base URL of the content, and other options (like the resource provider)
+ * @param t whether tracing is set (for debugging)
+ * @param p whether the package stops at the creation of an EPUB content and displays the content of the OPF file itself (for debugging)
+ */
+export async function convertFromFile(file_name :string, options :HTMLOptions = {}, t :boolean = false, p :boolean = false) :Promise<OCF> {
+    if (!file_name) {
+        throw new errors.R2EPUBError("No file name has been provided for the conversion", 'INVALID_ARGUMENT');
+    } else if (!['.html', '.xhtml', '.htm'].includes(path.extname(file_name).toLowerCase())) {
+        throw new errors.R2EPUBError("The file name must end with '.(x)html' or '.htm'", 'INVALID_ARGUMENT');
+    } else {
+        const directory :string = path.dirname(path.resolve(file_name));
+        const base_url  :string = options.baseURL || `${urlHandler.pathToFileURL(directory).href}/`;
+        let html :Buffer;
+        try {
+            html = await fs.promises.readFile(file_name);
+        } catch (err) {
+            throw new errors.FetchError(`Problem reading ${file_name}: ${err}`, urlHandler.pathToFileURL(path.resolve(file_name)).href);
+        }
+
+        // The base URL may refer to the document itself; the mapping must use the URL of its directory
+        const mapping :{[url_prefix :string] :string} = {};
+        mapping[urlHandler.resolve(base_url, '.')] = directory;
+        return convertFromHTML(html, {
+            ...options,
+            baseURL  : base_url,
+            provider : new provider.DirectoryProvider(mapping, options.provider || fill_default_options(options).provider)
+        }, t, p);
+    }
+}
+
+
+/**
+ * Check the structural conformance of a generated EPUB document (mimetype, container, manifest, spine, navigation document, well-formedness of the content documents,
+ * and manifest item properties). See the [validation module](../modules/_lib_validate_.html) for the details of the checks.
+ *
+ * This is not a replacement for [epubcheck](https://github.com/w3c/epubcheck), but it catches the most common errors quickly.
+ *
+ * @async
+ * @param the_ocf the OCF instance, as returned by [[convert]], [[convertFromHTML]], or [[convertFromFile]]
+ * @returns the validation report
+ */
+export async function validate(the_ocf :OCF) :Promise<ValidationReport> {
+    return validation.validate(the_ocf);
+}
@@ -0,0 +1,99 @@
+/**
+ * ## Bundled assets
+ *
+ * The conversion adds a number of W3C files to each EPUB file: the `base.css` style sheet, the logos of the various document types, the W3C logos, the generic fixup script, etc.
+ * Some of these had to be modified for EPUB (see the [css module](./_lib_css_.html) for the details); all of them are bundled with this package (in the `docs/epub_assets`
+ * directory of the distribution), and the registry in this module maps the URLs of the files to their bundled copies. The modules creating these resources
+ * (the [css](./_lib_css_.html), [cover](./_lib_cover_.html), and [convert](./_lib_convert_.html) modules) consult the registry first via [[asset_resource]]; the content
+ * of the resource is then taken from the bundle and no network access is needed.
+ *
+ * The files are read from the file system, i.e., the bundle is available in node.js only. In a browser the files are fetched from their URLs (the files modified for EPUB are
+ * available on the Web at [`modified_epub_files`](./_lib_constants_.html#modified_epub_files)).
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as path                     from 'path';
+import * as fs                       from 'fs';
+import * as _                        from 'underscore';
+import { ResourceRef }               from './convert';
+import { media_type_from_extension } from './provider';
+import * as constants                from './constants';
+
+/**
+ * The directory of the bundled assets; `null` in a browser.
+ */
+export const asset_directory :string = constants.is_browser ? null : path.resolve(__dirname, '..', '..', 'docs', 'epub_assets');
+
+/**
+ * File names of the bundled assets that are modified versions of W3C files; their URLs are relative to [`modified_epub_files`](./_lib_constants_.html#modified_epub_files).
+ *
+ * @hidden
+ */
+const modified_files :string[] = [
+    'base.css',
+    'CR.svg', 'CRD.svg', 'ED.svg', 'IG-Note.svg', 'NOTE.svg', 'OBSL.svg', 'PER.svg', 'PR.svg', 'REC.svg', 'RNOTE.svg', 'RSCND.svg', 'SPSD.svg', 'WD.svg', 'WG-Note.svg',
+    'W3C_logo.svg', 'UD-watermark.png', 'w3c_main.png'
+];
+
+/**
+ * The registry: mapping from the URL of an asset to the file name of its bundled copy. Besides the modified files, some original W3C files are also bundled.
+ *
+ * @hidden
+ */
+const registry :{[url :string] :string} = {
+    ..._.object(modified_files.map((name :string) :string => `${constants.modified_epub_files}${name}`), modified_files),
+    [`${constants.TR_logo_files}W3C.svg`]          : 'W3C.svg',
+    [`${constants.TR_logo_files}UD-watermark.png`] : 'UD-watermark.png',
+    'https://www.w3.org/Icons/w3c_main.png'         : 'w3c_main.png',
+    'https://www.w3.org/StyleSheets/base.css'       : 'base_simple.css',
+    [constants.fixup_js]                            : 'fixup.js',
+};
+
+/**
+ * Contents of the assets already read.
+ *
+ * @hidden
+ */
+const contents :Map<string, string|Buffer> = new Map();
+
+/**
+ * Get the content of a bundled asset.
+ *
+ * @param url - the URL of the asset
+ * @returns - the content (text for textual media types, Buffer otherwise), or `undefined` if the URL is not in the registry or the bundle is not available
+ */
+export function get_asset(url :string) :string|Buffer {
+    const file_name :string = registry[url];
+    if (file_name === undefined || asset_directory === null) return undefined;
+
+    if (!contents.has(file_name)) {
+        const full_name  = path.join(asset_directory, file_name);
+        const media_type = media_type_from_extension(file_name);
+        try {
+            contents.set(file_name, constants.text_content.includes(media_type) ? fs.readFileSync(full_name, 'utf-8') : fs.readFileSync(full_name));
+        } catch (err) {
+            // The bundle is incomplete (e.g., the package has been installed without it); the asset is fetched from its URL
+            return undefined;
+        }
+    }
+    return contents.get(file_name);
+}
+
+/**
+ * Create a resource entry for an asset: if the asset is bundled, the entry includes its content, i.e., the resource is not fetched.
+ *
+ * @param relative_url - the path of the resource in the EPUB file
+ * @param media_type - the media type of the resource
+ * @param absolute_url - the URL of the asset
+ * @returns - the resource entry
+ */
+export function asset_resource(relative_url :string, media_type :string, absolute_url :string) :ResourceRef {
+    const content = get_asset(absolute_url);
+    return content === undefined ? { relative_url, media_type, absolute_url } : { relative_url, media_type, absolute_url, content };
+}
@@ -0,0 +1,243 @@
+/**
+ * ## HTTP Cache
+ *
+ * Persistent, on-disk cache for the resources fetched on the Web by the [HTTPProvider](../classes/_lib_fetch_.httpprovider.html). Regenerating
+ * EPUB files for a number of documents usually means fetching the same W3C logos, CSS files, or scripts over and over again; the cache avoids that.
+ *
+ * The cache directory has two subdirectories:
+ *
+ * * `content`: the resources themselves, stored in files named after the SHA-256 hash of their content (i.e., the cache is content-addressed; the same content is stored only once);
+ * * `index`: one JSON file per URL (named after the SHA-256 hash of the URL) with the HTTP metadata of the resource and a reference to its content (see [[CacheEntry]]).
+ *
+ * The cache honours the `ETag`, `Last-Modified`, `Cache-Control`, and `Expires` HTTP response headers: a fresh entry is used without any network access,
+ * a stale entry is revalidated via a conditional HTTP request. See [[CacheMode]] for the possible modes of operations.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as fs     from 'fs';
+import * as path   from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * Modes of operation of the cache:
+ *
+ * * `default`: fresh entries are used, stale entries are revalidated;
+ * * `refresh`: all resources are fetched anew (and the cache is updated);
+ * * `only`: only the cached entries are used (whether fresh or not); no network access is done, and it is an error if the resource is not in the cache.
+ */
+export type CacheMode = 'default' | 'refresh' | 'only';
+
+/**
+ * Minimal interface for the HTTP headers of a response (it is a common subset of the browser's and of `node-fetch`'s `Headers` class).
+ */
+interface Headers {
+    get(name :string) :string;
+}
+
+/**
+ * Information stored, in the index, for a cached resource.
+ */
+export interface CacheEntry {
+    /** The URL of the resource */
+    url            :string,
+
+    /** The media type of the resource, as returned by the server */
+    media_type     :string,
+
+    /** SHA-256 hash of the content, used as its file name in the cache */
+    content        :string,
+
+    /** Time (in milliseconds since the epoch) until which the entry is considered to be fresh */
+    expires        :number,
+
+    /** Value of the `ETag` response header, if any */
+    etag?          :string,
+
+    /** Value of the `Last-Modified` response header, if any */
+    last_modified? :string
+}
+
+/** @hidden */
+const sha256 = (data :string|Buffer) :string => crypto.createHash('sha256').update(data).digest('hex');
+
+/**
+ * Establish the expiration time of a response, based on the `Cache-Control` and `Expires` headers.
+ *
+ * @param headers - the response headers
+ * @returns - expiration time in milliseconds since the epoch, or `null` if the response must not be stored at all
+ */
+export function expiration(headers :Headers) :number {
+    const now = Date.now();
+    const cache_control = (headers.get('cache-control') || '')
+        .split(',')
+        .map((directive :string) :string => directive.trim().toLowerCase());
+
+    if (cache_control.includes('no-store')) {
+        return null;
+    } else if (cache_control.includes('no-cache')) {
+        return now;
+    }
+
+    const max_age = cache_control.find((directive :string) :boolean => directive.startsWith('max-age='));
+    if (max_age !== undefined) {
+        const seconds = Number(max_age.split('=')[1]);
+        return Number.isNaN(seconds) ? now : now + seconds * 1000;
+    }
+
+    const expires = headers.get('expires');
+    if (expires) {
+        const date = Date.parse(expires);
+        return Number.isNaN(date) ? now : date;
+    }
+
+    // No explicit information: the entry must be revalidated before use
+    return now;
+}
+
+/**
+ * On-disk, content-addressed HTTP cache.
+ */
+export class HTTPCache {
+    private _directory :string;
+    private _mode      :CacheMode;
+
+    /**
+     *
+     * @param directory - the directory used for the cache; it is created if it does not exist
+     * @param mode - mode of operation
+     */
+    constructor(directory :string, mode :CacheMode = 'default') {
+        this._directory = directory;
+        this._mode      = mode;
+    }
+
+    /** The cache directory */
+    get directory() :string {
+        return this._directory;
+    }
+
+    /** Mode of operation */
+    get mode() :CacheMode {
+        return this._mode;
+    }
+
+    /** @hidden */
+    private index_file(url :string) :string {
+        return path.join(this._directory, 'index', `${sha256(url)}.json`);
+    }
+
+    /** @hidden */
+    private content_file(hash :string) :string {
+        return path.join(this._directory, 'content', hash.slice(0, 2), hash);
+    }
+
+    /**
+     * Write a file "atomically", i.e., via a temporary file and a rename, to avoid (almost) parallel fetches to step on one another.
+     *
+     * @hidden
+     */
+    private async write_file(file_name :string, data :string|Buffer) :Promise<void> {
+        await fs.promises.mkdir(path.dirname(file_name), { recursive: true });
+        const tmp_name = `${file_name}.${process.pid}.${crypto.randomBytes(4).toString('hex')}`;
+        await fs.promises.writeFile(tmp_name, data);
+        await fs.promises.rename(tmp_name, file_name);
+    }
+
+    /**
+     * Look up the cache entry for a URL.
+     *
+     * @param url
+     * @returns - the cache entry, or `null` if the URL (or its content) is not in the cache
+     * @async
+     */
+    async lookup(url :string) :Promise<CacheEntry> {
+        try {
+            const entry :CacheEntry = JSON.parse(await fs.promises.readFile(this.index_file(url), 'utf-8'));
+            await fs.promises.access(this.content_file(entry.content), fs.constants.R_OK);
+            return entry;
+        } catch (err) {
+            return null;
+        }
+    }
+
+    /**
+     * Check whether an entry can be used without revalidation.
+     *
+     * @param entry
+     */
+    is_fresh(entry :CacheEntry) :boolean {
+        return entry.expires > Date.now();
+    }
+
+    /**
+     * Headers to be added to an HTTP request to revalidate an entry (i.e., `If-None-Match` and/or `If-Modified-Since`).
+     *
+     * @param entry
+     */
+    validation_headers(entry :CacheEntry) :{[header :string] :string} {
+        const retval :{[header :string] :string} = {};
+        if (entry.etag) retval['If-None-Match'] = entry.etag;
+        if (entry.last_modified) retval['If-Modified-Since'] = entry.last_modified;
+        return retval;
+    }
+
+    /**
+     * Read the content of a cached resource.
+     *
+     * @param entry
+     * @async
+     */
+    async read(entry :CacheEntry) :Promise<Buffer> {
+        return fs.promises.readFile(this.content_file(entry.content));
+    }
+
+    /**
+     * Store a resource in the cache. If the response headers forbid storage, the cache is not modified.
+     *
+     * @param url - the URL of the resource
+     * @param media_type - the media type of the resource
+     * @param headers - the response headers
+     * @param content - the content of the resource
+     * @returns - the cache entry (also in case it was not stored)
+     * @async
+     */
+    async store(url :string, media_type :string, headers :Headers, content :Buffer) :Promise<CacheEntry> {
+        const expires = expiration(headers);
+        const entry :CacheEntry = {
+            url        : url,
+            media_type : media_type,
+            content    : sha256(content),
+            expires    : expires === null ? 0 : expires
+        }
+        if (headers.get('etag')) entry.etag = headers.get('etag');
+        if (headers.get('last-modified')) entry.last_modified = headers.get('last-modified');
+
+        if (expires !== null) {
+            await this.write_file(this.content_file(entry.content), content);
+            await this.write_file(this.index_file(url), JSON.stringify(entry, null, 4));
+        }
+        return entry;
+    }
+
+    /**
+     * Update the expiration of an entry after a successful revalidation (i.e., an HTTP 304 response).
+     *
+     * @param entry - the cache entry
+     * @param headers - the headers of the 304 response
+     * @returns - the updated cache entry
+     * @async
+     */
+    async revalidated(entry :CacheEntry, headers :Headers) :Promise<CacheEntry> {
+        const expires = expiration(headers);
+        const new_entry :CacheEntry = { ...entry, expires : expires === null ? 0 : expires };
+        if (headers.get('etag')) new_entry.etag = headers.get('etag');
+        await this.write_file(this.index_file(entry.url), JSON.stringify(new_entry, null, 4));
+        return new_entry;
+    }
+}
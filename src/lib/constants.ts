@@ -29,11 +29,44 @@ export const media_types :MediaType = {
     js      : 'text/javascript',
     json    : 'application/json',
     jsonld  : 'application/ld+json',
+    ncx     : 'application/x-dtbncx+xml',
     png     : 'image/png',
     svg     : 'image/svg+xml',
     xhtml   : 'application/xhtml+xml',
  };
 
+/**
+ * Mapping of file name extensions to media types. Used when the media type of a resource cannot be established
+ * otherwise (e.g., when the resource is read from the local file system).
+ */
+export const extension_media_types :MediaType = {
+    '.css'    : media_types.css,
+    '.txt'    : media_types.text,
+    '.es'     : media_types.es,
+    '.html'   : media_types.html,
+    '.htm'    : media_types.html,
+    '.js'     : media_types.js,
+    '.json'   : media_types.json,
+    '.jsonld' : media_types.jsonld,
+    '.ncx'    : media_types.ncx,
+    '.png'    : media_types.png,
+    '.svg'    : media_types.svg,
+    '.xhtml'  : media_types.xhtml,
+    '.epub'   : media_types.epub,
+    '.jpg'    : 'image/jpeg',
+    '.jpeg'   : 'image/jpeg',
+    '.gif'    : 'image/gif',
+    '.webp'   : 'image/webp',
+    '.mp3'    : 'audio/mpeg',
+    '.mp4'    : 'video/mp4',
+    '.webm'   : 'video/webm',
+    '.woff'   : 'font/woff',
+    '.woff2'  : 'font/woff2',
+    '.ttf'    : 'font/ttf',
+    '.otf'    : 'font/otf',
+    '.vtt'    : 'text/vtt',
+};
+
 
 /** These media types refer to textual content, no reason to bother about streaming when fetching them... */
 export const text_content :string[] = [
@@ -44,6 +77,7 @@ export const text_content :string[] = [
     media_types.js,
     media_types.json,
     media_types.jsonld,
+    media_types.ncx,
     media_types.svg,
     media_types.xhtml,
 ];
@@ -113,6 +147,15 @@ export const acceptable_url_endings :string[] = [
  */
 export const local_port_number    :string = '80';
 
+/** Default directory for the HTTP cache (relative to the current directory), used by the CLI if caching is requested without an explicit location. */
+export const default_cache_directory :string = '.r2epub-cache';
+
+/** Language of the publication if the document does not set one (via the `lang` attribute of the `<html>` element). */
+export const default_language     :string = 'en-us';
+
+/** Fixed modification date of the files in the EPUB (zip) archive for reproducible builds; the earliest date the zip format can represent. */
+export const reproducible_date    :Date = new Date(Date.UTC(1980, 0, 1));
+
 /** URL of the spec generator service, used if the source has to be transformed via respec first. */
 export const spec_generator       :string = 'https://labs.w3.org/spec-generator/?type=respec&url='
 
@@ -122,7 +165,7 @@ export const fixup_js             :string  = 'https://www.w3.org/scripts/TR/2016
 /** Base URL for the official W3C logos (only the non-SVG ones are used directly). */
 export const TR_logo_files        :string = 'https://www.w3.org/StyleSheets/TR/2016/logos/';
 
-/** Base URL for the W3C files (like `base.css`, logos in SVG format) modified for EPUB. */
+/** Base URL for the W3C files (like `base.css`, logos in SVG format) modified for EPUB; copies of these files are bundled with the package (see the [assets module](./_lib_assets_.html)). */
 // export const modified_epub_files  :string = 'https://iherman.github.io/r2epub/epub_assets/';
 export const modified_epub_files  :string = 'https://www.ivan-herman.net/r2epub/';
 
@@ -21,7 +21,11 @@ import * as jsdom      from 'jsdom';
 import * as _          from 'underscore';
 import * as urlHandler from 'url';
 
-import { fetch_html, fetch_resource, fetch_type } from './fetch';
+import { fetch_html, parse_html, fetch_resource, fetch_resource_with_type, default_provider } from './fetch';
+import { FetchedResource, ResourceProvider } from './provider';
+import { RespecProcessor, default_processor } from './respec';
+import { R2EPUBError, MissingConfigError } from './errors';
+import { Phase, ProgressListener, report, byte_length } from './progress';
 import {Options}       from '../index';
 import * as constants  from './constants';
 import * as opf        from './opf';
@@ -30,6 +34,17 @@ import * as css        from './css';
 import * as cover      from './cover';
 import * as nav        from './nav';
 import * as overview   from './overview'
+import { collect_css_resources } from './css_references';
+import { srcset_urls } from './media';
+import { RemotePolicy, handle_remote_resources } from './remote';
+import { sanitize_svg, sanitize_inline_svg } from './svg';
+import { asset_resource } from './assets';
+import { ScriptPolicy, materialize_content, strip_scripts } from './scripts';
+import { ImageOptions, ImageResult, optimized_media_types as images_media_types, optimize_image } from './images';
+import { plan_split } from './split';
+import { create_ncx } from './ncx';
+import { TOCOptions } from './nav';
+import { add_metadata } from './metadata';
 
 
 // ========================================================== The main conversion part ============================================ //
@@ -47,6 +62,9 @@ export interface ResourceRef {
     /** URL of the resource in case it must be fetched */
     absolute_url?  :string,
 
+    /** Content of the resource in case it has already been fetched (it is then not fetched again) */
+    content?       :any,
+
     /** Content of the resource in case it is generated by this program */
     text_content?  :string,
 
@@ -58,6 +76,9 @@ export interface ResourceRef {
 
     /** Flag whether the resource reference should also be added to the spite with a 'linear=no' attribute */
     add_to_spine?  :boolean
+
+    /** Flag whether the resource reference should also be added to the spine as a linear item (used for the parts of a split document) */
+    in_spine?      :boolean
 }
 
 
@@ -88,6 +109,66 @@ export interface Global {
      */
     package?      :boolean
 
+    /**
+     * The provider used to access the document and all its resources
+     */
+    provider?     :ResourceProvider
+
+    /**
+     * Listener for the progress events, if any
+     */
+    progress?     :ProgressListener
+
+    /**
+     * Whether the output should be reproducible, i.e., byte-for-byte identical for the same input (see [[RespecToEPUB.create_epub_from_dom]])
+     */
+    reproducible? :boolean
+
+    /**
+     * The handling of the media resources with absolute URLs
+     */
+    remote?       :RemotePolicy
+
+    /**
+     * The options of the image optimization; if not set, the images are stored unchanged
+     */
+    images?       :ImageOptions
+
+    /**
+     * The handling of the scripts in the document
+     */
+    scripts?      :ScriptPolicy
+
+    /**
+     * Whether the document should be split into several content documents (see the [split module](../modules/_lib_split_.html))
+     */
+    split?        :boolean
+
+    /**
+     * If the document is split: the mapping from the element ids to the content documents they end up in
+     */
+    fragments?    :{[id :string] :string}
+
+    /**
+     * Whether a legacy (EPUB 2) NCX file should be added (see the [ncx module](../modules/_lib_ncx_.html))
+     */
+    ncx?          :boolean
+
+    /**
+     * The settings for the table of contents of the navigation file; if not set, the table of contents of the document is copied unchanged
+     */
+    toc?          :TOCOptions
+
+    /**
+     * The language of the document, taken from its `<html>` element (the default is [`default_language`](../modules/_lib_constants_.html#default_language))
+     */
+    lang?         :string
+
+    /**
+     * The base direction of the document, taken from its `<html>` element, if set
+     */
+    dir?          :string
+
     /**
      * The class used for the generation of the EPUB opf file
      */
@@ -109,7 +190,9 @@ interface LocalLinks {
     /** CSS selector to locate the right DOM elements */
     query :string,
     /** Attribute name to extract the resource URL */
-    attr  :string
+    attr  :string,
+    /** The attribute value is a list of image candidates (as in `srcset`) rather than a single URL */
+    srcset? :boolean
 }
 
 
@@ -121,6 +204,7 @@ interface LocalLinks {
  * On a high level, the task of creating the EPUB file consists of:
  *
  * * Collect all the dependent resources like images, scripts, css files, audio, video, etc, that are "part" of the specification. In practical terms that means all resources with a relative URL should be collected.
+ *   This includes the resources (images, fonts, imported style sheets) referred to from the CSS content of the document. (See the [“css_references” module](./_lib_css_references_.html).)
  * * Set the right CSS files. W3C TR documents refer (via absolute URL-s) to CSS files in `https://www.w3.org/StyleSheet/TR/2016/*`;
  *   these style files, and the related images, depend on the exact nature of the TR document: REC, WD, etc. All these should be collected/created as resources for the EPUB file. (See the [“css” module](./_lib_css_.html).)
  * * Follow similar actions for some system wide javascript files (although, at this moment, it is a single JS file that must be taken care of).
@@ -137,7 +221,9 @@ export class RespecToEPUB {
     /**
      * Arrays of query/attribute pairs that may refer to a resource to be collected:
      *
-     * - image, audio, and video, elements
+     * - image, audio, video, and text track elements
+     * - image candidates in `srcset` attributes (e.g., for `<picture>`), and video posters
+     * - images in inline SVG (using either `href` or `xlink:href`)
      * - `a` elements
      * - links to stylesheets and scripts
      * - `object` elements
@@ -145,9 +231,26 @@ export class RespecToEPUB {
      */
     resource_references :LocalLinks[] = [
         {
-            query : 'img, script, audio, video, source',
+            query : 'img, script, audio, video, source, track',
             attr  : 'src'
         },
+        {
+            query  : 'img, source',
+            attr   : 'srcset',
+            srcset : true
+        },
+        {
+            query : 'video',
+            attr  : 'poster'
+        },
+        {
+            query : 'svg image',
+            attr  : 'href'
+        },
+        {
+            query : 'svg image',
+            attr  : 'xlink:href'
+        },
         {
             query : 'a, link[rel="stylesheet"]',
             attr  : 'href'
@@ -162,55 +265,77 @@ export class RespecToEPUB {
 
     private global_url :string;
 
-    constructor(trace :boolean = false, print_package: boolean = false) {
+    /**
+     * @param trace - whether tracing is set (for debugging)
+     * @param print_package - whether the package stops at the creation of an EPUB content and displays the content of the OPF file itself (for debugging)
+     * @param options - the conversion options (resource provider, progress listener, remote resource and script policies, etc.; see [Options](../interfaces/_index_.options.html)); missing values are set to their defaults
+     */
+    constructor(trace :boolean = false, print_package: boolean = false, options :Options = {}) {
         this.global = {
-            trace     : trace,
-            package   : print_package,
-            resources : []
+            trace        : trace,
+            package      : print_package,
+            provider     : options.provider || default_provider,
+            progress     : options.progress || null,
+            reproducible : options.reproducible || false,
+            remote       : options.remote || 'keep',
+            images       : options.images || null,
+            scripts      : options.scripts || 'keep',
+            split        : options.split || false,
+            ncx          : options.ncx || false,
+            toc          : options.toc || null,
+            resources    : []
         }
     }
 
+    /**
+     * Report a progress event for the document, if a listener is set.
+     *
+     * @param phase - conversion phase
+     * @param status - start or end of the phase
+     * @param resources - number of resources handled in the phase
+     * @param bytes - number of bytes handled in the phase
+     * @param saved - number of bytes saved in the phase
+     */
+    private report(phase :Phase, status :'start'|'end', resources? :number, bytes? :number, saved? :number) :void {
+        report(this.global.progress, { phase, status, url : this.global.document_url, resources, bytes, saved });
+    }
+
     /**
      * Create an EPUB 3.2, ie, an OCF file from the original content
      *
      * This function is a wrapper around [[create_epub_from_dom]]:
      *
-     * 1. Creates the DOM, which means, possibly, the original content is ran through the respec processor (if necessary).
+     * 1. Creates the DOM, which means, possibly, the original content is ran through a [respec processor](../modules/_lib_respec_.html) (if necessary).
      * 2. Calls [[create_epub_from_dom]] to generate the OCF content.
      * 3. "Finalizes" the OCF content, i.e., dump everything to a file.
      *
      *
+     * @param url - the URL of the document
      * @param options - Reference to the original document; this may have to be transformed by respec on-the-fly.
+     * @param content - the content of the document, if it has already been fetched (it is then not fetched again); not used if the document has to go through ReSpec
      * @async
      */
-    async create_epub(url: string, options: Options) :Promise<ocf.OCF> {
-        /** Generate the URL used to get the final document DOM */
-        const full_url = () => {
-            if (options.respec) {
-                // Yep, the content has to go through the respec transformation service
-                // Collect the possible query parameters to control some details of the respec transformation
-                const config_options :string[] = _.keys(options.config)
-                    .map( (key :string) :string => {
-                        if (options.config[key] === null || options.config[key] === '' || options.config[key] === 'null') {
-                            return null;
-                        } else {
-                            return `${key}%3D${options.config[key]}`
-                        }
-                    })
-                    .filter((val) => val !== null);
-                const query_string = config_options.length === 0 ? '' : `%3F${config_options.join('%26')}`;
-                return `${constants.spec_generator}${url}${query_string}`
+    async create_epub(url: string, options: Options, content :string = undefined) :Promise<ocf.OCF> {
+        if (this.global.trace) console.log(`Input arguments: ${url}, ${JSON.stringify(_.omit(options, 'provider', 'processor'))}`);
+
+        // Fetch the real content (with a possible respec transformation) as a DOM tree for further processing
+        this.global.document_url = url;
+        this.report('fetch_document', 'start');
+        let dom :jsdom.JSDOM;
+        if (options.respec) {
+            // Yep, the content has to go through the respec transformation
+            const processor :RespecProcessor = options.processor || default_processor;
+            if (this.global.trace) console.log(`Spec to be processed by ReSpec: ${url}`);
+            dom = await processor.process(url, options.config, this.global.provider);
+        } else {
+            if (content !== undefined) {
+                dom = parse_html(content, url);
             } else {
-                return url;
+                if (this.global.trace) console.log(`URL for the spec to be fetched: ${url}`);
+                dom = await fetch_html(url, this.global.provider);
             }
         }
-
-        if (this.global.trace) console.log(`Input arguments: ${url}, ${JSON.stringify(options)}`);
-
-        // Fetch the real content (with a possible respec transformation) as a DOM tree for further processing
-        const fetch_url = full_url();
-        if (this.global.trace) console.log(`URL for the spec to be fetched: ${fetch_url}`);
-        const dom :jsdom.JSDOM = await fetch_html(fetch_url);
+        this.report('fetch_document', 'end', 1, this.global.progress ? byte_length(dom.serialize()) : undefined);
 
         return await this.create_epub_from_dom(url, dom);
     }
@@ -219,24 +344,31 @@ export class RespecToEPUB {
     /**
      * Create an OCF instance from DOM representing the original content.
      *
-     * 1. Gather all the global information ([[Global]]).
-     * 2. Add the basic metadata (authors, dates) to the opf file.
-     * 3. Collect all the resources (see [[resource_references]]); the relative urls and the media types are
+     * 1. Gather all the global information ([[Global]]), including the language and the base direction of the document.
+     * 2. Add the basic metadata (authors, dates) to the opf file, as well as further metadata taken from the ReSpec configuration (see the [metadata module](../modules/_lib_metadata_.html)).
+     * 3. Remove the scripts, depending on the [script policy](../modules/_lib_scripts_.html#scriptpolicy); the content generated by the scripts is materialized first.
+     * 4. Collect all the resources (see [[resource_references]]), as well as the resources referred to from CSS; the relative urls and the media types are
      * collected in a global structure, to be added to the EPUB file and the opf file later.
-     * 4. Add the reference to a W3C logo.
-     * 5. Add the reference to the generic fixup script.
-     * 6. Add some of the global W3C CSS files, and auxiliary image files.
-     * 7. Create a cover file.
-     * 8. Create a nav file.
-     * 9. Main resource (i.e., Overview.xhtml) entry, with relevant properties.
-     * 10. Finalize the package file based on the collected resources in [[Global.resources]].
-     * 11. Download all resources into the EPUB file.
+     * 5. Add the reference to a W3C logo.
+     * 6. Add the reference to the generic fixup script.
+     * 7. Handle the media resources with absolute URLs, depending on the [remote resource policy](../modules/_lib_remote_.html#remotepolicy).
+     * 8. Sanitize the inline SVG content (see the [SVG module](../modules/_lib_svg_.html)).
+     * 9. Add some of the global W3C CSS files, and auxiliary image files.
+     * 10. Create a cover file.
+     * 11. Create a nav file; if the document is to be split, the content documents of the sections are determined first (see the [split module](../modules/_lib_split_.html)).
+     * If requested, a legacy NCX file is also created from the nav file (see the [ncx module](../modules/_lib_ncx_.html)).
+     * 12. Main resource (i.e., Overview.xhtml) entry, with relevant properties; if the document is split, the entries of the other content documents, too.
+     * 13. Finalize the package file based on the collected resources in [[Global.resources]].
+     * 14. Download all resources into the EPUB file.
      *
      *
      * All the resource entries are first collected in the in a [[Global.resources]] array, to be then added to the
      * [`package.opf`](https://www.w3.org/publishing/epub32/epub-packages.html#sec-package-def) file as well as to download
      * the resources into the final epub result (see the last two steps above).
      *
+     * If [[Global.reproducible]] is set, the manifest ids of the resources are derived from their paths (instead of numbering them in the order they have been found),
+     * the manifest is sorted, and the OCF instance is generated with fixed timestamps and file order.
+     *
      * @param url - The url of the document (serves also as a base for all the other resources)
      * @param dom - The DOM of the final format of the document (i.e., the original document may have gone through a respec processing...)
      * @param debug - Debug options, see [[DebugOptions]]. Initialized to no debug
@@ -254,102 +386,159 @@ export class RespecToEPUB {
             // Get hold of the configuration information
             const initial_config_element = this.global.html_element.querySelector("script#initialUserConfig") as HTMLScriptElement;
             if( initial_config_element === null ) {
-                throw "User config is not available"
+                throw new MissingConfigError(url);
             } else {
-                this.global.config = JSON.parse(initial_config_element.textContent);
+                try {
+                    this.global.config = JSON.parse(initial_config_element.textContent);
+                } catch (err) {
+                    throw new R2EPUBError(`Invalid user config: ${err}`, 'PARSE_ERROR', url);
+                }
             }
             if (this.global.trace) console.log(`global config set`);
         }
 
+        {
+            // Get hold of the language and the base direction of the document
+            const lang = (this.global.html_element.getAttribute('lang') || this.global.html_element.getAttribute('xml:lang') || '').trim();
+            this.global.lang = /^[A-Za-z0-9-]+$/.test(lang) ? lang : constants.default_language;
+            const dir = (this.global.html_element.getAttribute('dir') || '').trim().toLowerCase();
+            this.global.dir = ['ltr', 'rtl', 'auto'].includes(dir) ? dir : undefined;
+        }
+
         // ------------------------------------------
         // 2. Add the basic metadata (authors, dates) to the opf file
         {
             // Create the package content, and populate it with the essential metadata using the configuration
             const title = this.global.html_element.querySelector('title').textContent;
             this.global_url = `https://www.w3.org/TR/${this.global.config.shortName}/`;
-            this.global.opf_content = new opf.PackageWrapper(this.global_url, title);
+            this.global.opf_content = new opf.PackageWrapper(this.global_url, title, this.global.reproducible, this.global.lang, this.global.dir);
             this.global.opf_content.add_creators(
                 this.global.config.editors.map((entry: any) => entry.company !== undefined ? `${entry.name}, ${entry.company}` : `${entry.name}`)
             );
 
             const date = this.global.html_element.querySelector('time.dt-published');
             this.global.opf_content.add_dates(date.getAttribute('datetime'));
+
+            // Subtitle, abstract, authors, groups, etc.
+            add_metadata(this.global);
             if (this.global.trace) console.log(`global metadata set`);
         }
 
         // ------------------------------------------
-        // 3. Collect all the extra resources from the Overview.html file
+        // 3. Remove the scripts, if requested; this must precede the collection of the resources, to avoid adding the script files to the book
+        if (this.global.scripts === 'strip') {
+            await materialize_content(this.global);
+            strip_scripts(this.global);
+        }
+
+        // ------------------------------------------
+        // 4. Collect all the extra resources from the Overview.html file
+        this.report('collect_resources', 'start');
         this.global.resources = await this.get_extra_resources();
+        this.global.resources = [...this.global.resources, ...await collect_css_resources(this.global)];
+        this.report('collect_resources', 'end', this.global.resources.length,
+            this.global.resources.reduce((total :number, resource :ResourceRef) :number => total + byte_length(resource.content), 0));
 
         // ------------------------------------------
-        // 4. Add the reference to the W3C logo
+        // 5. Add the reference to the W3C logo
         {
             const logo_element = this.global.html_element.querySelector('img[alt="W3C"]');
             if (logo_element !== null) {
                 const relative_url =  `${constants.local_style_files}logos/W3C.svg`;
                 logo_element.setAttribute('src', relative_url);
-                // There is an ugly story here. The SVG version of the logo, as stored on the W3C site, includes a reference
-                // the very complex SVG DTD, and epubcheck does not like it (EPUB v. 3 does not like it, I guess). So
-                // I created a version of the logo without it and stored it at a fix URL...
-                this.global.resources.push({
-                    relative_url : relative_url,
-                    media_type   : constants.media_types.svg,
-                    absolute_url : `${constants.modified_epub_files}W3C_logo.svg`
-                })
+                // The bundled copy of the logo is used, if available. The SVG version of the logo, as stored on the W3C site, includes a reference to the
+                // SVG DTD, which epubcheck does not like; the reference is removed by the SVG sanitizer when the logo is added to the EPUB file.
+                this.global.resources.push(asset_resource(relative_url, constants.media_types.svg, `${constants.TR_logo_files}W3C.svg`));
             }
         }
 
         // ------------------------------------------
-        // 5. Add the reference to the generic fixup script. I am not sure it is really necessary
+        // 6. Add the reference to the generic fixup script. I am not sure it is really necessary
         // but it may not harm...
         {
             const fixup_element = this.global.html_element.querySelector(`script[src="${constants.fixup_js}"]`);
             if (fixup_element !== null) {
                 const relative_url = 'scripts/TR/2016/fixup.js';
                 fixup_element.setAttribute('src', relative_url);
-                this.global.resources.push({
-                    relative_url : relative_url,
-                    media_type   : constants.media_types.js,
-                    absolute_url : constants.fixup_js
-                })
+                this.global.resources.push(asset_resource(relative_url, constants.media_types.js, constants.fixup_js));
             }
         }
 
         // ------------------------------------------
-        // 6. Add some of the global W3C CSS files, and auxiliary image files
-        this.global.resources = [...this.global.resources, ...css.extract_css(this.global)]
+        // 7. Handle the remote media resources (embed or strip them, if requested)
+        this.global.resources = [...this.global.resources, ...await handle_remote_resources(this.global, this.global.remote)];
+
+        // ------------------------------------------
+        // 8. Sanitize the inline SVG content; the SVG files are sanitized when they are added to the EPUB file
+        sanitize_inline_svg(this.global.html_element);
+
+        // ------------------------------------------
+        // 9. Add some of the global W3C CSS files, and auxiliary image files
+        {
+            this.report('css', 'start');
+            const css_resources = css.extract_css(this.global);
+            this.global.resources = [...this.global.resources, ...css_resources];
+            this.report('css', 'end', css_resources.length);
+        }
 
         // ------------------------------------------
-        // 7. Create a cover file
-        this.global.resources = [...cover.create_cover_page(this.global), ...this.global.resources, ];
+        // 10. Create a cover file
+        {
+            this.report('cover', 'start');
+            const cover_resources = cover.create_cover_page(this.global);
+            this.global.resources = [...cover_resources, ...this.global.resources];
+            this.report('cover', 'end', cover_resources.length);
+        }
 
         // ------------------------------------------
-        // 8. Create a nav file
-        this.global.resources = [...nav.create_nav_file(this.global), ...this.global.resources];
+        // 11. Create a nav file
+        {
+            this.report('nav', 'start');
+            // The links in the nav file depend on the content document each section ends up in
+            if (this.global.split) plan_split(this.global);
+            const nav_resources = nav.create_nav_file(this.global);
+            if (this.global.ncx) {
+                const title = this.global.html_element.querySelector('title').textContent;
+                nav_resources.push({
+                    media_type   : constants.media_types.ncx,
+                    relative_url : 'toc.ncx',
+                    id           : 'ncx',
+                    text_content : create_ncx(this.global_url, title, nav_resources[0].text_content)
+                });
+                this.global.opf_content.set_toc('ncx');
+            }
+            this.global.resources = [...nav_resources, ...this.global.resources];
+            this.report('nav', 'end', nav_resources.length);
+        }
 
         // ------------------------------------------
-        // 9. Add main resource (i.e., Overview.xhtml) entry, with relevant properties
+        // 12. Add main resource (i.e., Overview.xhtml) entry, with relevant properties (and the other content documents if the document is split)
+        this.report('package', 'start');
         this.global.resources = [...overview.generate_overview_item(this.global), ...this.global.resources];
 
         // ------------------------------------------
-        // 10. Finalize the package file
+        // 13. Finalize the package file
         {
             // Add the WCAG conformance, if applicable
             if (constants.wcag_checked.includes(this.global.config.specStatus)) this.global.opf_content.add_wcag_link();
 
             // Populate the global package with the resource items
+            const path_ids = this.global.reproducible ? opf.stable_ids(this.global.resources.map((resource) => resource.relative_url).filter((path) => path)) : {};
             let res_id_num = 1;
             this.global.resources.forEach((resource) => {
                 if (resource.relative_url) {
+                    const id = resource.id || path_ids[resource.relative_url] || `res_id${res_id_num}`;
                     this.global.opf_content.add_manifest_item({
                         "@href"       : resource.relative_url,
                         "@media-type" : resource.media_type,
-                        "@id"         : resource.id || `res_id${res_id_num}`,
+                        "@id"         : id,
                         "@properties" : resource.properties
                     }, resource.add_to_spine || false);
+                    if (resource.in_spine) this.global.opf_content.add_spine_item(id);
                     res_id_num++;
                 }
             })
+            this.report('package', 'end', res_id_num - 1);
         }
 
         // There is a tiny debug branch at this point...
@@ -357,7 +546,7 @@ export class RespecToEPUB {
             console.log(this.global.opf_content.serialize());
             return {} as ocf.OCF;
         } else {
-            // 11. Download all resources into the EPUB file
+            // 14. Download all resources into the EPUB file
             const retval :ocf.OCF = await this.generate_epub();
             return retval;
         }
@@ -368,7 +557,8 @@ export class RespecToEPUB {
      * Collect the references to the extra resources, to be added to the EPUB file as well as the package opf file.
      * It relies on searching through the HTML source file, based on the query patterns given in [[resource_references]].
      *
-     * The media type of all entries are established by issuing a HEAD request to the respective resource.
+     * Each resource is fetched once: the media type is established from the response (see [fetch_resource_with_type](../modules/_lib_fetch_.html#fetch_resource_with_type))
+     * and the content is kept in the resource entry, to be stored in the EPUB file later.
      *
      * @returns - list of additional resources
      * @async
@@ -437,7 +627,8 @@ export class RespecToEPUB {
                         return true;
                     }
                 });
-                return candidates.map((element) => element.getAttribute(ref.attr));
+                // Note that a 'srcset' attribute may contain several URL-s
+                return _.flatten(candidates.map((element) :string[] => ref.srcset && element.hasAttribute(ref.attr) ? srcset_urls(element.getAttribute(ref.attr)) : [element.getAttribute(ref.attr)]));
             })
             // create one single array of the result (instead of an array or arrays)
             .flatten()
@@ -464,15 +655,16 @@ export class RespecToEPUB {
         const relative_urls = _.uniq(target_urls);
 
         const absolute_urls = relative_urls.map((ref :string) :string => urlHandler.resolve(this.global.document_url, ref));
-        if (this.global.trace) console.log(`getting the resources' content types via a set of fetches`);
-        const media_types   = await Promise.all(absolute_urls.map((url) => fetch_type(url)));
+        if (this.global.trace) console.log(`getting the resources' contents and media types via a set of fetches`);
+        const fetched :FetchedResource[] = await Promise.all(absolute_urls.map((url) => fetch_resource_with_type(url, false, this.global.provider)));
 
-        return _.zip(relative_urls, media_types, absolute_urls).map((entry: string[]) :ResourceRef => {
+        return relative_urls.map((relative_url :string, index :number) :ResourceRef => {
             return {
-                relative_url : entry[0],
-                media_type   : entry[1],
-                absolute_url : entry[2],
-                add_to_spine : to_spine[entry[0]] || false,
+                relative_url : relative_url,
+                media_type   : fetched[index].media_type,
+                absolute_url : absolute_urls[index],
+                content      : fetched[index].content,
+                add_to_spine : to_spine[relative_url] || false,
             }
         });
     }
@@ -484,14 +676,40 @@ export class RespecToEPUB {
      *
      * The generated epub file name is `shortName.epub`.
      *
+     * If [[Global.images]] is set, the PNG and JPEG images are fetched and optimized (see the [image module](../modules/_lib_images_.html)) before
+     * being added to the book.
+     *
      * @async
      */
     private async generate_epub(): Promise<ocf.OCF> {
-        const the_book = new ocf.OCF(`${this.global.config.shortName}.epub`);
+        if (this.global.images) {
+            await this.optimize_images();
+        }
+
+        this.report('zip', 'start');
+        const the_book = new ocf.OCF(`${this.global.config.shortName}.epub`, this.global.reproducible);
+
+        // Keep track of the number of resources and bytes added to the book, for the progress report.
+        // SVG files are sanitized on the fly, to make them acceptable for EPUB; a provider may return their content as binary, which must be decoded first
+        let total_resources = 0;
+        let total_bytes = 0;
+        const append = (content :any, relative_url :string, media_type? :string) :void => {
+            if (media_type === constants.media_types.svg) {
+                if (typeof content !== 'string' && !constants.is_browser && Buffer.isBuffer(content)) {
+                    content = content.toString('utf-8');
+                }
+                if (typeof content === 'string') {
+                    content = sanitize_svg(content);
+                }
+            }
+            the_book.append(content, relative_url);
+            total_resources++;
+            total_bytes += byte_length(content);
+        };
 
         // The OCF class adds the fixed file like mime type and such automatically.
         // Add the package to the archives, with a fixed name:
-        the_book.append(this.global.opf_content.serialize(),'package.opf');
+        append(this.global.opf_content.serialize(),'package.opf');
 
         // Add all the resources
         {
@@ -499,18 +717,51 @@ export class RespecToEPUB {
             if (this.global.trace) console.log(`append locally generated contents to the epub file`);
             this.global.resources
                 .filter((resource: ResourceRef): boolean => resource.text_content ? true : false)
-                .forEach((resource: ResourceRef): void => the_book.append(resource.text_content, resource.relative_url));
+                .forEach((resource: ResourceRef): void => append(resource.text_content, resource.relative_url, resource.media_type));
+
+            // Second, find the resources that have already been fetched; these can also be archived directly
+            this.global.resources
+                .filter((resource: ResourceRef): boolean => resource.content !== undefined)
+                .forEach((resource: ResourceRef): void => append(resource.content, resource.relative_url, resource.media_type));
 
-            // Second, find the resources where the content must be fetched...
-            const to_be_fetched = this.global.resources.filter((resource: ResourceRef): boolean => resource.absolute_url ? true : false);
-            const file_names = to_be_fetched.map((resource :ResourceRef): string => resource.relative_url);
+            // Third, find the resources where the content must be fetched...
+            const to_be_fetched = this.global.resources.filter((resource: ResourceRef): boolean => resource.absolute_url && resource.content === undefined ? true : false);
             const urls       = to_be_fetched.map((resource :ResourceRef): string => resource.absolute_url);
 
             if (this.global.trace) console.log(`fetch the external resources`);
-            const contents   = await Promise.all(urls.map((url: string): Promise<any> => fetch_resource(url)));
+            const contents   = await Promise.all(urls.map((url: string): Promise<any> => fetch_resource(url, false, this.global.provider)));
             if (this.global.trace) console.log(`append external resources to the epub file`);
-            _.zip(contents, file_names).forEach((arg: [any,string]) :void => the_book.append(arg[0], arg[1]));
+            to_be_fetched.forEach((resource :ResourceRef, index :number) :void => append(contents[index], resource.relative_url, resource.media_type));
         }
+        this.report('zip', 'end', total_resources, total_bytes);
         return the_book;
     }
+
+    /**
+     * Optimize the PNG and JPEG images among the resources, following the options in [[Global.images]]. The images that have not been fetched yet are fetched first; the
+     * (optimized) content is stored in the resource entries.
+     *
+     * @async
+     */
+    private async optimize_images(): Promise<void> {
+        this.report('images', 'start');
+        const images = this.global.resources.filter((resource :ResourceRef) :boolean => {
+            return images_media_types.includes(resource.media_type) && (resource.content !== undefined || resource.absolute_url !== undefined);
+        });
+
+        if (this.global.trace) console.log(`fetch and optimize the images`);
+        const results :ImageResult[] = await Promise.all(images.map(async (resource :ResourceRef) :Promise<ImageResult> => {
+            if (resource.content === undefined) {
+                resource.content = await fetch_resource(resource.absolute_url, false, this.global.provider);
+            }
+            const result = await optimize_image(resource.content, resource.media_type, this.global.images);
+            resource.content = result.content;
+            return result;
+        }));
+
+        const final = results.reduce((total :number, result :ImageResult) :number => total + result.final, 0);
+        const saved = results.reduce((total :number, result :ImageResult) :number => total + result.original - result.final, 0);
+        if (this.global.trace) console.log(`${images.length} images optimized, ${saved} bytes saved`);
+        this.report('images', 'end', images.length, final, saved);
+    }
 }
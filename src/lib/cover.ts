@@ -12,7 +12,9 @@
  */
 
 import { ResourceRef, Global } from './convert';
+import { asset_resource }      from './assets';
 import * as constants          from './constants';
+import * as xhtml              from './xhtml';
 
 
 /**
@@ -21,7 +23,7 @@ import * as constants          from './constants';
  */
 const cover = `<?xml version="1.0" encoding="utf-8"?>
 <!DOCTYPE html>
-<html lang="en-us" xmlns="http://www.w3.org/1999/xhtml">
+<html%%%LANG%%% xmlns="http://www.w3.org/1999/xhtml">
   <head>
     <meta charset="utf-8" />
     <title>%%%TITLE1%%%</title>
@@ -70,8 +72,8 @@ const cover = `<?xml version="1.0" encoding="utf-8"?>
       <h2 id="subtitle">%%%SUBTITLE%%%</h2>
       <p class="larger" id="editors">%%%EDITORS%%%</p>
       <p class="logo"><a href="http://www.w3.org/"><img alt="W3C main logo" src="Icons/w3c_main.png"/></a></p>
-      <p class="disclaimer">Note: this EPUB edition does <em>not</em> represent the authoritative text of the specification; please consult the <a id="%%%ORIGINAL%%%">original document</a> on the W3C Web Site.</p>
-      <p class="copyright"><a href="http://www.w3.org/Consortium/Legal/ipr-notice#Copyright">Copyright</a>
+      <p class="disclaimer" lang="en" xml:lang="en" dir="ltr">Note: this EPUB edition does <em>not</em> represent the authoritative text of the specification; please consult the <a id="%%%ORIGINAL%%%">original document</a> on the W3C Web Site.</p>
+      <p class="copyright" lang="en" xml:lang="en" dir="ltr"><a href="http://www.w3.org/Consortium/Legal/ipr-notice#Copyright">Copyright</a>
       © of the original documents: <time id="cpdate" datetime="%%%%ISODATE%%%%">%%%DATE%%%</time> W3C<sup>®</sup> (<a href="http://www.mit.edu">MIT</a>, <a href="http://www.ercim.eu/">ERCIM</a>,
       <a href="http://www.keio.ac.jp/">Keio</a>, <a href="http://ev.buaa.edu.cn/">Beihang</a>).<br/>
       All right reserved. W3C <a href="http://www.w3.org/Consortium/Legal/ipr-notice#Legal_Disclaimer">liability</a>,
@@ -84,6 +86,7 @@ const cover = `<?xml version="1.0" encoding="utf-8"?>
 
 /**
  * Create the cover page: it is an XHTML file with title, editors, copyright information, and a disclaimer whereby the EPUB version of the document is not authoritative.
+ * The language and the base direction of the page are those of the document (the disclaimer and the copyright notice are in English, and are marked as such).
  *
  * @param global
  * @returns - resources for a cover page, as well as long W3C logo (appearing on the cover page) and a relevant css file.
@@ -91,16 +94,8 @@ const cover = `<?xml version="1.0" encoding="utf-8"?>
 export function create_cover_page(global :Global) :ResourceRef[] {
     // The W3C long logo must be added to the overall resources
     const retval :ResourceRef[] = [
-        {
-            media_type   : 'image/png',
-            relative_url : 'Icons/w3c_main.png',
-            absolute_url : 'https://www.w3.org/Icons/w3c_main.png'
-        },
-        {
-            media_type   : 'text/css',
-            relative_url : 'StyleSheets/base.css',
-            absolute_url : 'https://www.w3.org/StyleSheets/base.css'
-        }
+        asset_resource('Icons/w3c_main.png', 'image/png', 'https://www.w3.org/Icons/w3c_main.png'),
+        asset_resource('StyleSheets/base.css', 'text/css', 'https://www.w3.org/StyleSheets/base.css')
     ]
 
     const get_editors = () :string => global.config.editors
@@ -111,6 +106,7 @@ export function create_cover_page(global :Global) :ResourceRef[] {
     const date = global.html_element.querySelector('time.dt-published');
 
     const final_cover = cover
+        .replace('%%%LANG%%%', xhtml.lang_attributes(global.lang, global.dir))
         .replace('%%%TITLE1%%%', title)
         .replace('%%%TITLE2%%%', title)
         .replace('%%%SUBTITLE%%%', date.parentElement.innerHTML)
@@ -48,6 +48,7 @@
 
 
 import { ResourceRef, Global }  from './convert';
+import { asset_resource }       from './assets';
 import * as urlHandler          from 'url';
 import * as constants           from './constants';
 
@@ -200,11 +201,7 @@ export function extract_css(global: Global): ResourceRef[] {
 
     if (the_link !== undefined) {
         // 'base' CSS file, to be added
-        retval.push({
-            relative_url : `${constants.local_style_files}base.css`,
-            media_type   : constants.media_types.css,
-            absolute_url : `${constants.modified_epub_files}base.css`
-        })
+        retval.push(asset_resource(`${constants.local_style_files}base.css`, constants.media_types.css, `${constants.modified_epub_files}base.css`));
 
         // The html content should be modified to refer to the base directly
         the_link.setAttribute('href', `${constants.local_style_files}base.css`);
@@ -243,20 +240,12 @@ export function extract_css(global: Global): ResourceRef[] {
                 // Before we forget, add the logo file to the resources!
                 const media_type    = css_extras.logo_media_type || constants.media_types.svg;
                 const orig_logo_url = media_type === constants.media_types.svg ? constants.modified_epub_files : constants.TR_logo_files;
-                retval.push({
-                    relative_url : `${constants.local_style_files}logos/${css_extras.logo_name}`,
-                    media_type   : media_type,
-                    absolute_url : `${orig_logo_url}${css_extras.logo_name}`
-                })
+                retval.push(asset_resource(`${constants.local_style_files}logos/${css_extras.logo_name}`, media_type, `${orig_logo_url}${css_extras.logo_name}`));
             }
 
             if (css_extras.watermark) {
                 // Add the watermark file to the resources!
-                retval.push({
-                    relative_url : `${constants.local_style_files}logos/UD-watermark.png`,
-                    media_type   : constants.media_types.png,
-                    absolute_url : `${constants.TR_logo_files}UD-watermark.png`
-                })
+                retval.push(asset_resource(`${constants.local_style_files}logos/UD-watermark.png`, constants.media_types.png, `${constants.TR_logo_files}UD-watermark.png`));
             }
 
             // The extra epub CSS reference has to be added to the html source and to the return values
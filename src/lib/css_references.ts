@@ -0,0 +1,221 @@
+/**
+ * ## Resources referenced from CSS
+ *
+ * Style sheets may refer to further resources: images (e.g., backgrounds), fonts, or other style sheets (via `@import`). These references are not visible as element attributes in the
+ * HTML source, i.e., they are not found through the [resource references](../classes/_lib_convert_.respectoepub.html#resource_references) of the main conversion.
+ *
+ * The [[collect_css_resources]] function looks for `url()` and `@import` references in
+ *
+ * * the CSS files already collected as resources of the document,
+ * * the `<style>` elements of the document, and
+ * * the `style` attributes in the document.
+ *
+ * Relative references are followed (recursively for imported style sheets), the referred resources are fetched, and added to the list of resources of the EPUB file.
+ * Absolute URLs and `data:` URLs are left untouched.
+ *
+ * The path of a resource in the EPUB file is its path relative to the document. Resources that are not “below” the document (e.g., `../fonts/font.woff`) cannot be stored
+ * this way; they are stored in a separate [[external_directory]] instead, and the references in the CSS content are rewritten accordingly.
+ *
+ * The CSS content is not really parsed; simple regular expressions are used to locate the references (while skipping CSS comments).
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as urlHandler            from 'url';
+import * as path                  from 'path';
+import { ResourceRef, Global }    from './convert';
+import { fetch_resource_with_type } from './fetch';
+import { FetchedResource }        from './provider';
+import * as constants             from './constants';
+
+/**
+ * Directory, in the EPUB file, for the resources that are not within the directory of the document. The path within this directory is the host name followed by the path of the resource's URL.
+ */
+export const external_directory :string = 'css_resources';
+
+/**
+ * Regular expression to find the references in a CSS content; comments are matched first, to ignore the references within them.
+ * The reference itself is either in the second (`url()`) or the fourth (`@import` with a string) capturing group.
+ *
+ * @hidden
+ */
+const css_reference = /\/\*[\s\S]*?\*\/|url\(\s*(['"]?)([^'")]*)\1\s*\)|@import\s+(['"])([^'"]*)\3/g;
+
+/**
+ * A CSS content to be processed.
+ *
+ * @hidden
+ */
+interface CSSSource {
+    /** The CSS content */
+    css      :string,
+
+    /** The absolute URL the references are resolved against */
+    base     :string,
+
+    /** The path of the CSS content (i.e., of the CSS file, or of the document for inline CSS) in the EPUB file */
+    location :string,
+
+    /** Store the (possibly rewritten) CSS content */
+    update   :(css :string) => void
+}
+
+/**
+ * Apply a function on all the references in a CSS content, and replace the references by the values returned by that function.
+ *
+ * @param css - the CSS content
+ * @param replace - function returning the new value for a reference
+ * @returns - the modified CSS content
+ */
+function replace_references(css :string, replace :(ref :string) => string) :string {
+    return css.replace(css_reference, (match :string, q1 :string, url_ref :string, q2 :string, import_ref :string) :string => {
+        if (url_ref !== undefined) {
+            return `url(${q1}${replace(url_ref.trim())}${q1})`;
+        } else if (import_ref !== undefined) {
+            return `@import ${q2}${replace(import_ref.trim())}${q2}`;
+        } else {
+            // This is a comment
+            return match;
+        }
+    });
+}
+
+/**
+ * Whether a reference should be followed, i.e., whether it is a relative URL. Absolute URLs (including `data:` URLs) and pure fragment references are ignored.
+ *
+ * @param ref - the reference, as it appears in the CSS content
+ */
+function is_local(ref :string) :boolean {
+    if (ref === '' || ref.startsWith('#')) {
+        return false;
+    } else {
+        const parsed = urlHandler.parse(ref);
+        return parsed.protocol === null && parsed.path !== null;
+    }
+}
+
+/**
+ * Collect the resources referred to from CSS content (see the [module description](./_lib_css_references_.html) for the details). The CSS content in the `global.resources` entries and in
+ * the document itself is modified if some of the references have to be rewritten.
+ *
+ * @param global - the global data of the conversion; the `resources` field must contain the resources collected from the document
+ * @returns - the list of additional resources
+ * @async
+ */
+export async function collect_css_resources(global :Global) :Promise<ResourceRef[]> {
+    const retval :ResourceRef[] = [];
+    const document_directory :string = urlHandler.resolve(global.document_url, '.');
+
+    // The paths already stored in the EPUB file
+    const stored :{[epub_path :string] :boolean} = {};
+    global.resources.forEach((resource :ResourceRef) :void => {
+        if (resource.relative_url) stored[decodeURIComponent(path.posix.normalize(resource.relative_url))] = true;
+    });
+
+    // Path of a resource in the EPUB file (i.e., the file name in the zip archive, hence the URL decoding)
+    const epub_path = (absolute_url :string) :string => {
+        const parsed = urlHandler.parse(absolute_url);
+        parsed.hash   = null;
+        parsed.search = null;
+        const stripped :string = urlHandler.format(parsed);
+        if (stripped.startsWith(document_directory)) {
+            return decodeURIComponent(stripped.slice(document_directory.length));
+        } else {
+            return `${external_directory}/${parsed.hostname}${decodeURIComponent(parsed.pathname)}`;
+        }
+    };
+
+    // The initial CSS contents: CSS files, style elements, and style attributes
+    const queue :CSSSource[] = [];
+    global.resources
+        .filter((resource :ResourceRef) :boolean => resource.media_type === constants.media_types.css && resource.content !== undefined && resource.absolute_url !== undefined)
+        .forEach((resource :ResourceRef) :void => {
+            queue.push({
+                css      : `${resource.content}`,
+                base     : resource.absolute_url,
+                location : path.posix.normalize(resource.relative_url),
+                update   : (css :string) :void => { resource.content = css; }
+            });
+        });
+    Array.from(global.html_element.querySelectorAll('style')).forEach((element :Element) :void => {
+        queue.push({
+            css      : element.textContent,
+            base     : global.document_url,
+            location : 'Overview.xhtml',
+            update   : (css :string) :void => { element.textContent = css; }
+        });
+    });
+    Array.from(global.html_element.querySelectorAll('[style]')).forEach((element :Element) :void => {
+        queue.push({
+            css      : element.getAttribute('style'),
+            base     : global.document_url,
+            location : 'Overview.xhtml',
+            update   : (css :string) :void => element.setAttribute('style', css)
+        });
+    });
+
+    while (queue.length > 0) {
+        const source :CSSSource = queue.shift();
+
+        // Collect the new resources referred to from this CSS content
+        const targets :{[absolute_url :string] :string} = {};
+        replace_references(source.css, (ref :string) :string => {
+            if (is_local(ref)) {
+                const parsed = urlHandler.parse(urlHandler.resolve(source.base, ref));
+                parsed.hash = null;
+                const absolute_url = urlHandler.format(parsed);
+                const target = epub_path(absolute_url);
+                if (!stored[target]) {
+                    stored[target] = true;
+                    targets[absolute_url] = target;
+                }
+            }
+            return ref;
+        });
+
+        const absolute_urls :string[] = Object.keys(targets);
+        if (global.trace && absolute_urls.length > 0) console.log(`fetching the resources referred to from CSS in ${source.base}`);
+        const fetched :FetchedResource[] = await Promise.all(absolute_urls.map((url :string) :Promise<FetchedResource> => fetch_resource_with_type(url, false, global.provider)));
+        absolute_urls.forEach((absolute_url :string, index :number) :void => {
+            const resource :ResourceRef = {
+                relative_url : targets[absolute_url],
+                media_type   : fetched[index].media_type,
+                absolute_url : absolute_url,
+                content      : fetched[index].content
+            };
+            retval.push(resource);
+            if (resource.media_type === constants.media_types.css) {
+                // Imported style sheets must be processed, too
+                queue.push({
+                    css      : `${resource.content}`,
+                    base     : absolute_url,
+                    location : resource.relative_url,
+                    update   : (css :string) :void => { resource.content = css; }
+                });
+            }
+        });
+
+        // Rewrite the references whose target is not at the same relative position in the EPUB file as originally
+        const from :string = path.posix.dirname(source.location);
+        let modified = false;
+        const new_css :string = replace_references(source.css, (ref :string) :string => {
+            if (is_local(ref)) {
+                const parsed = urlHandler.parse(urlHandler.resolve(source.base, ref));
+                const new_path :string = encodeURI(path.posix.relative(from, epub_path(urlHandler.format(parsed))));
+                if (path.posix.normalize(ref.split('#')[0]) !== new_path) {
+                    modified = true;
+                    return new_path + (parsed.hash || '');
+                }
+            }
+            return ref;
+        });
+        if (modified) source.update(new_css);
+    }
+
+    return retval;
+}
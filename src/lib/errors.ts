@@ -0,0 +1,201 @@
+/**
+ * ## Errors
+ *
+ * All errors raised by the conversion are instances of [[R2EPUBError]] (or of one of its subclasses). Each error has a stable [[ErrorCode]], so that
+ * callers can react to specific failures without parsing the error messages, and, whenever available, the URL of the offending resource and
+ * (for collections) the index of the offending chapter.
+ *
+ * The command line interface uses the code to set its exit status (see [[exit_codes]]); the server returns the error as a JSON object (see [[R2EPUBError.toJSON]]).
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+/**
+ * Stable error codes:
+ *
+ * * `FETCH_FAILURE`: a resource could not be retrieved (invalid or unsafe URL, HTTP error, network error, missing local file, etc.);
+ * * `MISSING_RESPEC_CONFIG`: the document does not include the ReSpec configuration (i.e., the `script#initialUserConfig` element);
+ * * `MISSING_TOC`: the document does not have a table of contents (i.e., the `nav#toc` element);
+ * * `SCHEMA_VALIDATION`: the collection configuration file is not valid;
+ * * `UNSUPPORTED_MEDIA_TYPE`: the document is neither (X)HTML nor JSON;
+ * * `PARSE_ERROR`: the content of an HTML or a JSON file could not be parsed;
+ * * `RESPEC_PROCESSING`: the ReSpec processing of the source failed;
+ * * `INVALID_ARGUMENT`: the arguments of the conversion (URL, file name, options) are missing or invalid;
+ * * `VALIDATION`: the generated EPUB file is not valid (see the [validation module](./_lib_validate_.html));
+ * * `INTERNAL`: any other, unexpected error.
+ */
+export type ErrorCode =
+    'FETCH_FAILURE' |
+    'MISSING_RESPEC_CONFIG' |
+    'MISSING_TOC' |
+    'SCHEMA_VALIDATION' |
+    'UNSUPPORTED_MEDIA_TYPE' |
+    'PARSE_ERROR' |
+    'RESPEC_PROCESSING' |
+    'INVALID_ARGUMENT' |
+    'VALIDATION' |
+    'INTERNAL';
+
+/**
+ * Exit status of the command line interface for each error code.
+ */
+export const exit_codes :{[code in ErrorCode] :number} = {
+    INTERNAL               : 1,
+    INVALID_ARGUMENT       : 2,
+    FETCH_FAILURE          : 3,
+    UNSUPPORTED_MEDIA_TYPE : 4,
+    MISSING_RESPEC_CONFIG  : 5,
+    MISSING_TOC            : 6,
+    SCHEMA_VALIDATION      : 7,
+    PARSE_ERROR            : 8,
+    RESPEC_PROCESSING      : 9,
+    VALIDATION             : 10
+}
+
+/**
+ * Serialization of an error, e.g., for a JSON response of the server.
+ */
+export interface ErrorData {
+    /** The error code */
+    code     :ErrorCode,
+
+    /** The error message */
+    message  :string,
+
+    /** The URL of the offending resource, if known */
+    url?     :string,
+
+    /** The index of the offending chapter in a collection (starting at 0), if relevant */
+    chapter? :number
+}
+
+/**
+ * Base class for all errors raised by the conversion.
+ */
+export class R2EPUBError extends Error {
+    /** The stable error code */
+    code     :ErrorCode;
+
+    /** The URL of the offending resource, if known */
+    url?     :string;
+
+    /** The index of the offending chapter in a collection (starting at 0), if relevant */
+    chapter? :number;
+
+    /**
+     *
+     * @param message - the error message
+     * @param code - the error code
+     * @param url - the URL of the offending resource, if known
+     */
+    constructor(message :string, code :ErrorCode = 'INTERNAL', url? :string) {
+        super(message);
+        this.name = 'R2EPUBError';
+        this.code = code;
+        if (url !== undefined) this.url = url;
+    }
+
+    /**
+     * The exit status of the command line interface for this error.
+     */
+    get exit_code() :number {
+        return exit_codes[this.code];
+    }
+
+    toString() :string {
+        const details :string[] = [];
+        if (this.url !== undefined) details.push(`URL: ${this.url}`);
+        if (this.chapter !== undefined) details.push(`chapter: ${this.chapter}`);
+        return `[${this.code}] ${this.message}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+    }
+
+    /**
+     * Serialization of the error (used by `JSON.stringify`).
+     */
+    toJSON() :ErrorData {
+        const retval :ErrorData = {
+            code    : this.code,
+            message : this.message
+        };
+        if (this.url !== undefined) retval.url = this.url;
+        if (this.chapter !== undefined) retval.chapter = this.chapter;
+        return retval;
+    }
+}
+
+/**
+ * A resource could not be retrieved.
+ */
+export class FetchError extends R2EPUBError {
+    constructor(message :string, url? :string) {
+        super(message, 'FETCH_FAILURE', url);
+        this.name = 'FetchError';
+    }
+}
+
+/**
+ * The ReSpec configuration is not available in the document.
+ */
+export class MissingConfigError extends R2EPUBError {
+    constructor(url? :string) {
+        super('User config is not available', 'MISSING_RESPEC_CONFIG', url);
+        this.name = 'MissingConfigError';
+    }
+}
+
+/**
+ * The table of contents is not available in the document.
+ */
+export class MissingTOCError extends R2EPUBError {
+    constructor(url? :string) {
+        super('No TOC element in the document', 'MISSING_TOC', url);
+        this.name = 'MissingTOCError';
+    }
+}
+
+/**
+ * The collection configuration file is not valid.
+ */
+export class SchemaValidationError extends R2EPUBError {
+    /** The errors reported by the schema validator */
+    errors :any[];
+
+    constructor(message :string, errors :any[] = [], url? :string) {
+        super(message, 'SCHEMA_VALIDATION', url);
+        this.name   = 'SchemaValidationError';
+        this.errors = errors;
+    }
+}
+
+/**
+ * The media type of the document is not acceptable.
+ */
+export class UnsupportedMediaTypeError extends R2EPUBError {
+    /** The media type of the document */
+    media_type :string;
+
+    constructor(media_type :string, url? :string) {
+        super(`The URL should refer to an (X)HTML or a JSON content (got '${media_type}')`, 'UNSUPPORTED_MEDIA_TYPE', url);
+        this.name       = 'UnsupportedMediaTypeError';
+        this.media_type = media_type;
+    }
+}
+
+/**
+ * Turn any error (including thrown strings) into an [[R2EPUBError]]; the original error is returned unchanged if it is already one.
+ *
+ * @param err - the original error
+ * @param url - the URL of the offending resource, if known and not yet set on the error
+ * @param chapter - the index of the offending chapter, if relevant and not yet set on the error
+ */
+export function to_r2epub_error(err :any, url? :string, chapter? :number) :R2EPUBError {
+    const retval :R2EPUBError = (err instanceof R2EPUBError) ? err : new R2EPUBError(err instanceof Error ? err.message : `${err}`, 'INTERNAL', url);
+    if (retval.url === undefined && url !== undefined) retval.url = url;
+    if (retval.chapter === undefined && chapter !== undefined) retval.chapter = chapter;
+    return retval;
+}
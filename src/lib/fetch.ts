@@ -1,7 +1,7 @@
 /**
  * ## Fetch
  *
- * Wrappers around the fetch function.
+ * Wrappers around the fetch function. The real work is done by a [resource provider](../modules/_lib_provider_.html); the default is the [[HTTPProvider]], which accesses the resources on the Web.
  *
  * @packageDocumentation
  */
@@ -18,6 +18,10 @@ import * as validUrl   from 'valid-url';
 import * as jsdom      from 'jsdom';
 import * as constants  from './constants';
 import * as fs         from 'fs';
+import { ResourceProvider, FetchedResource, media_type_from_extension, fetch_with_type } from './provider';
+import { HTTPCache }                                             from './cache';
+import { Scheduler, TransientError, default_scheduler }          from './scheduler';
+import { R2EPUBError, FetchError }                               from './errors';
 
 /**
 * Basic sanity check on a URL supposed to be used to retrieve a Web Resource.
@@ -36,24 +40,24 @@ import * as fs         from 'fs';
 *
 * @param address
 * @returns  - the URL itself (which might be slightly improved by the valid-url method) or `null` if this is, in fact, not a URL
-* @throws  if `address` pretends to be a URL, but it is not acceptable for some reasons.
+* @throws  [[FetchError]] if `address` pretends to be a URL, but it is not acceptable for some reasons.
 */
 const check_Web_url = (address :string) :string => {
     const parsed = urlHandler.parse(address);
     if (parsed.protocol === null) {
         // This is not a URL, should be used as a file name
-        throw `Invalid URL: no protocol`;
+        throw new FetchError(`Invalid URL: no protocol`, address);
     }
 
     // Check whether we use the right protocol
     if (['http:', 'https:'].includes(parsed.protocol) === false) {
-       throw `URL is not http or https`;
+       throw new FetchError(`URL is not http or https`, address);
     }
 
     // Run through the URL validator
     const retval = validUrl.isWebUri(address);
     if (retval === undefined) {
-        throw `The URL isn't valid`;
+        throw new FetchError(`The URL isn't valid`, address);
     }
 
     // Check the port
@@ -61,10 +65,10 @@ const check_Web_url = (address :string) :string => {
         try {
             const portNumber = Number(parsed.port);
             if (portNumber <= 1024) {
-                throw `Unsafe port number used in URL (${parsed.port})`;
+                throw new FetchError(`Unsafe port number used in URL (${parsed.port})`, address);
             }
         } catch(e) {
-            throw `Invalid port number used in URL (${parsed.port})`;
+            throw new FetchError(`Invalid port number used in URL (${parsed.port})`, address);
         }
     }
 
@@ -73,7 +77,7 @@ const check_Web_url = (address :string) :string => {
     // should be refused.
     if ( !(constants.is_browser || process.env.R2EPUB_LOCAL) ) {
         if (constants.invalid_host_names.includes(parsed.hostname)) {
-            throw `Invalid host used in URL (${parsed.hostname})`;
+            throw new FetchError(`Invalid host used in URL (${parsed.hostname})`, address);
         }
     }
 
@@ -93,153 +97,302 @@ const check_Web_url = (address :string) :string => {
  *
  * I guess this makes this entry a bit polyfill like:-)
  */
-const my_fetch: ((arg :string) => Promise<any>) = constants.is_browser ? fetch : node_fetch.default;
+const my_fetch: ((arg :string, init? :any) => Promise<any>) = constants.is_browser ? fetch : node_fetch.default;
 
 
 /**
- * Fetch a resource.
+ * Resource provider accessing the resources on the Web.
  *
  * "Fetch" means fetching the resource on the Web. There is one exception, though: some W3C files (e.g., SVG logos) have been modified for EPUB use.
- * These files are also available on the Web (see [`modified_epub_files`](https://iherman.github.io/r2epub/typedoc/modules/_lib_constants_.html#modified_epub_files)) but if the local environment variable `R2EPUB_MODIFIED_EPUB_FILES` is set,
+ * These files are normally taken from the [bundled assets](../modules/_lib_assets_.html) without fetching them at all. They are also available on the Web (see [`modified_epub_files`](https://iherman.github.io/r2epub/typedoc/modules/_lib_constants_.html#modified_epub_files)) but if the local environment variable `R2EPUB_MODIFIED_EPUB_FILES` is set,
  * then the value is considered to be the name of a local directory, and the files are picked up from that directory via direct, local file system access.
  * This may speed up and, mainly, avoid some fetch errors that unfortunately occur.
  *
  * (I am not sure why those errors occur, mainly when collections are created. I _suspect_ this may be related to an almost simultaneous access to the same files more or less
  * in parallel via an async call to a Promise array, and the servers may not be properly set up for that.)
  *
- * @param resource_url
- * @param force_text - whether the resource should be returned as text in case no content type is set by the server
- * @returns - resource; either a simple text, or a Stream
- * @async
+ * If an [HTTP cache](../classes/_lib_cache_.httpcache.html) is set, all fetches go through that cache (in node.js only).
+ *
+ * All network accesses are run through a [scheduler](../classes/_lib_scheduler_.scheduler.html), limiting the number of parallel requests per host, setting timeouts, and
+ * retrying the failed requests. This should also avoid the errors mentioned above.
  */
-export async function fetch_resource(resource_url :string, force_text :boolean = false) :Promise<any> {
-    if (constants.is_browser === false && process.env.R2EPUB_MODIFIED_EPUB_FILES && resource_url.startsWith(constants.modified_epub_files)) {
-        const filename = resource_url.replace(constants.modified_epub_files, process.env.R2EPUB_MODIFIED_EPUB_FILES);
-        if (filename.endsWith('.png') && force_text === false) {
-            // This is an image; it must be returned as a buffer
-            return fs.promises.readFile(filename);
-        } else {
-            return fs.promises.readFile(filename, 'utf-8');
-        }
-    } else {
-        // If there is a problem, an exception is raised
-        return new Promise((resolve, reject) => {
+export class HTTPProvider implements ResourceProvider {
+    private cache     :HTTPCache;
+    private scheduler :Scheduler;
+
+    /**
+     * @param cache - the on-disk cache to be used; if `null`, there is no caching.
+     * @param scheduler - the scheduler for the network requests; by default, the scheduler shared by all providers is used.
+     */
+    constructor(cache :HTTPCache = null, scheduler :Scheduler = default_scheduler) {
+        this.cache     = constants.is_browser ? null : cache;
+        this.scheduler = scheduler || default_scheduler;
+    }
+
+    /**
+     * Issue an HTTP GET request via the scheduler. Network errors and server errors (i.e., HTTP status 5xx) are considered to be transient,
+     * and the request is retried; any other response is handed over to the `process` function, which is also run within the scheduler (i.e., the body of
+     * the response is read while the request still occupies its slot).
+     *
+     * @param final_url - the URL, already checked for validity
+     * @param headers - additional request headers
+     * @param process - function processing the response
+     * @returns - the value returned by `process`
+     * @async
+     */
+    private async request<T>(final_url :string, headers :{[header :string] :string}, process :(response :any) => Promise<T>) :Promise<T> {
+        return this.scheduler.run(final_url, async (timeout :number) :Promise<T> => {
+            let response :any;
             try {
-                // This is a real URL, whose content must be accessed via HTTP(S)
-                // An exception is raised if the URL has security/sanity issues.
-                const final_url = check_Web_url(resource_url);
-                my_fetch(final_url)
-                    .then((response) => {
-                        if (response.ok) {
-                            // If the response content type is set (which is usually the case, but not in all cases...)
-                            const response_type = response.headers.get('content-type').split(';')[0].trim();
-                            if (response_type && response_type !== '') {
-                                if  (constants.text_content.includes(response_type)) {
-                                    // the simple way, just return text...
-                                    resolve(response.text())
-                                } else {
-                                    if (force_text){
-                                        resolve(response.text())
-                                    } else {
-                                        // return the body without processing, ie, as a blob or a stream
-                                        if (constants.is_browser) {
-                                            // In a browser, a blob should be returned
-                                            resolve(response.blob())
-                                        } else {
-                                            // In node.js the body is returned as a stream
-                                            resolve(response.body)
-                                        }
-                                    }
-                                }
-                            } else {
-                                console.log("return text by default")
-                                // No type information on return, let us hope this is something proper
-                                // TODO: (in case of a full implementation) to do something intelligent if there is no response header content type.
-                                resolve(response.text());
-                            }
-                        } else {
-                            reject(new Error(`HTTP response ${response.status}: ${response.statusText} on ${resource_url}`));
-                        }
-                    })
-                    .catch((err) => {
-                        reject(new Error(`Problem accessing ${final_url}: ${err}`));
-                    });
+                response = await my_fetch(final_url, { headers : headers, timeout : timeout });
             } catch (err) {
-                reject(err);
+                throw new TransientError(`Problem accessing ${final_url}: ${err}`, final_url);
+            }
+            if (response.status >= 500) {
+                throw new TransientError(`HTTP response ${response.status}: ${response.statusText} on ${final_url}`, final_url);
+            }
+            return process(response);
+        });
+    }
+
+    /**
+     * Fetch a resource via the cache: fresh cache entries are used as is, stale entries are revalidated with a conditional request,
+     * and new content is stored in the cache. See the [cache module](../modules/_lib_cache_.html) for the details.
+     *
+     * @param resource_url
+     * @returns - the media type (as returned by the server) and the content of the resource
+     * @async
+     */
+    private async fetch_via_cache(resource_url :string) :Promise<{media_type :string, content :Buffer}> {
+        const final_url = check_Web_url(resource_url);
+        const entry = await this.cache.lookup(final_url);
+
+        if (this.cache.mode === 'only') {
+            if (entry === null) {
+                throw new FetchError(`${resource_url} is not in the cache (${this.cache.directory})`, resource_url);
+            }
+            return { media_type : entry.media_type, content : await this.cache.read(entry) };
+        }
+
+        if (entry !== null && this.cache.mode === 'default' && this.cache.is_fresh(entry)) {
+            return { media_type : entry.media_type, content : await this.cache.read(entry) };
+        }
+
+        const headers = (entry !== null && this.cache.mode === 'default') ? this.cache.validation_headers(entry) : {};
+        return this.request(final_url, headers, async (response :any) :Promise<{media_type :string, content :Buffer}> => {
+            if (response.status === 304 && entry !== null) {
+                const new_entry = await this.cache.revalidated(entry, response.headers);
+                return { media_type : new_entry.media_type, content : await this.cache.read(new_entry) };
+            } else if (response.ok) {
+                const media_type = (response.headers.get('content-type') || '').split(';')[0].trim();
+                const content :Buffer = await response.buffer();
+                await this.cache.store(final_url, media_type, response.headers, content);
+                return { media_type, content };
+            } else {
+                throw new FetchError(`HTTP response ${response.status}: ${response.statusText} on ${resource_url}`, resource_url);
+            }
+        });
+    }
+
+    /**
+     * Fetch a resource directly on the Web.
+     *
+     * @param resource_url
+     * @returns - the media type (as returned by the server) and the content of the resource (a Buffer in node.js, a Blob in a browser)
+     * @async
+     */
+    private async fetch_direct(resource_url :string) :Promise<{media_type :string, content :Buffer|Blob}> {
+        // This is a real URL, whose content must be accessed via HTTP(S)
+        // An exception is raised if the URL has security/sanity issues.
+        const final_url = check_Web_url(resource_url);
+        return this.request(final_url, {}, async (response :any) :Promise<{media_type :string, content :Buffer|Blob}> => {
+            if (response.ok) {
+                const media_type = (response.headers.get('content-type') || '').split(';')[0].trim();
+                // In a browser, a blob should be returned, in node.js a Buffer
+                const content = constants.is_browser ? await response.blob() : await response.buffer();
+                return { media_type, content };
+            } else {
+                throw new FetchError(`HTTP response ${response.status}: ${response.statusText} on ${resource_url}`, resource_url);
             }
         });
     }
+
+    /**
+     * Fetch a resource with its media type.
+     *
+     * The resource is retrieved via one single HTTP GET request. If the server does not set the media type, it is established using the
+     * file name extension of the URL, with `text/plain` as a last resort.
+     *
+     * @param resource_url
+     * @param force_text - whether the resource should be returned as text, regardless of its media type
+     * @returns - resource; either a simple text, or a binary content (Buffer in node.js, Blob in a browser)
+     * @async
+     */
+    async fetch(resource_url :string, force_text :boolean = false) :Promise<FetchedResource> {
+        if (constants.is_browser === false && process.env.R2EPUB_MODIFIED_EPUB_FILES && resource_url.startsWith(constants.modified_epub_files)) {
+            const filename   = resource_url.replace(constants.modified_epub_files, process.env.R2EPUB_MODIFIED_EPUB_FILES);
+            const media_type = media_type_from_extension(filename) || constants.media_types.text;
+            try {
+                if (filename.endsWith('.png') && force_text === false) {
+                    // This is an image; it must be returned as a buffer
+                    return { media_type, content : await fs.promises.readFile(filename) };
+                } else {
+                    return { media_type, content : await fs.promises.readFile(filename, 'utf-8') };
+                }
+            } catch (err) {
+                throw new FetchError(`Problem accessing ${resource_url} (as ${filename}): ${err}`, resource_url);
+            }
+        }
+
+        const response = this.cache !== null ? await this.fetch_via_cache(resource_url) : await this.fetch_direct(resource_url);
+
+        // If the response content type is set (which is usually the case, but not in all cases...)
+        const media_type = response.media_type || media_type_from_extension(resource_url) || constants.media_types.text;
+
+        if (force_text || constants.text_content.includes(media_type)) {
+            // the simple way, just return text...
+            const content = response.content;
+            return {
+                media_type,
+                content : constants.is_browser ? await (content as Blob).text() : (content as Buffer).toString('utf-8')
+            };
+        } else {
+            return { media_type, content : response.content };
+        }
+    }
+
+    /**
+     * Fetch a resource.
+     *
+     * @param resource_url
+     * @param force_text - whether the resource should be returned as text, regardless of its media type
+     * @returns - resource; either a simple text, or a binary content (Buffer in node.js, Blob in a browser)
+     * @async
+     */
+    async fetch_resource(resource_url :string, force_text :boolean = false) :Promise<any> {
+        return (await this.fetch(resource_url, force_text)).content;
+    }
+
+    /**
+     * Fetch the media type of a resource. Note that this means retrieving the full resource; if the content is also needed, [[fetch]] should be used instead.
+     *
+     * @param resource_url
+     * @returns - the media type
+     * @async
+     */
+    async fetch_type(resource_url :string) :Promise<string> {
+        return (await this.fetch(resource_url)).media_type;
+    }
 }
 
+/**
+ * The default resource provider, used if none is set explicitly.
+ */
+export const default_provider :ResourceProvider = new HTTPProvider();
+
 
 /**
- * Fetch the media type of the resource.
+ * Fetch a resource with its media type via a resource provider.
  *
  * @param resource_url
- * @returns - the media type
+ * @param force_text - whether the resource should be returned as text, regardless of its media type
+ * @param provider - the resource provider to use
+ * @returns - the resource's content and media type
  * @async
  */
-export async function fetch_type(resource_url :string) :Promise<string> {
-    // If there is a problem, an exception is raised
-    return new Promise((resolve, reject) => {
-        try {
-            // This is a real URL, whose content must be accessed via HTTP(S)
-            // An exception is raised if the URL has security/sanity issues.
-            const final_url = check_Web_url(resource_url);
-            my_fetch(final_url)
-                .then((response) => {
-                    if (response.ok) {
-                        // If the response content type is set (which is usually the case, but not in all cases...)
-                        const type :string = response.headers.get('content-type');
-                        resolve(type.split(';')[0].trim());
-                    } else {
-                        reject(new Error(`HTTP response ${response.status}: ${response.statusText} on ${resource_url}`));
-                    }
-                })
-                .catch((err) => {
-                    reject(new Error(`Problem accessing ${resource_url}: ${err}`));
-                });
-        } catch (err) {
-            reject(err);
-        }
-    });
+export async function fetch_resource_with_type(resource_url :string, force_text :boolean = false, provider :ResourceProvider = default_provider) :Promise<FetchedResource> {
+    return fetch_with_type(provider, resource_url, force_text);
 }
 
 
 /**
- * Fetch an HTML file via [[fetch_resource]] and parse the result into a DOM instance.
+ * Fetch a resource via a resource provider.
  *
+ * @param resource_url
+ * @param force_text - whether the resource should be returned as text, regardless of its media type
+ * @param provider - the resource provider to use
+ * @returns - resource; either a simple text, or a binary content
  * @async
- * @param html_url
+ */
+export async function fetch_resource(resource_url :string, force_text :boolean = false, provider :ResourceProvider = default_provider) :Promise<any> {
+    return provider.fetch_resource(resource_url, force_text);
+}
+
+
+/**
+ * Fetch the media type of the resource via a resource provider.
+ *
+ * Note that, for some providers, this means retrieving the full resource; if the content is also needed, [[fetch_resource_with_type]] should be used instead.
+ *
+ * @param resource_url
+ * @param provider - the resource provider to use
+ * @returns - the media type
+ * @async
+ */
+export async function fetch_type(resource_url :string, provider :ResourceProvider = default_provider) :Promise<string> {
+    return provider.fetch_type(resource_url);
+}
+
+
+/**
+ * Parse an HTML content into a DOM instance.
+ *
+ * @param body - the HTML content
+ * @param html_url - the URL of the content, used as a base URL
  * @return - DOM object for the parsed HTML
- * @throws Error if something goes wrong with fetch or DOM Parsing
+ * @throws [[R2EPUBError]] with the `PARSE_ERROR` code if something goes wrong with DOM Parsing
  */
-export async function fetch_html(html_url :string) :Promise<jsdom.JSDOM> {
+export function parse_html(body :string, html_url :string) :jsdom.JSDOM {
     try {
-        const body = await fetch_resource(html_url, true);
         const retval = new jsdom.JSDOM(body, { url: html_url });
         return retval;
     } catch (err) {
-        throw new Error(`HTML parsing error in ${html_url}: ${err}`);
+        throw new R2EPUBError(`HTML parsing error in ${html_url}: ${err}`, 'PARSE_ERROR', html_url);
     }
 }
 
 /**
- * Fetch an JSON file via [[fetch_resource]] and parse the result into an object.
+ * Fetch an HTML file via [[fetch_resource]] and parse the result into a DOM instance.
  *
  * @async
- * @param json_url
+ * @param html_url
+ * @param provider - the resource provider to use
  * @return - DOM object for the parsed HTML
- * @throws Error if something goes wrong with fetch or DOM Parsing
+ * @throws [[FetchError]] if something goes wrong with fetch, [[R2EPUBError]] with the `PARSE_ERROR` code if something goes wrong with DOM Parsing
  */
-export async function fetch_json(json_url :string) :Promise<any> {
-    // Note that if this was used in a browser only, there are shortcuts in the fetch function for this, but that is not the case for
-    // node-fetch. :-(
+export async function fetch_html(html_url :string, provider :ResourceProvider = default_provider) :Promise<jsdom.JSDOM> {
+    const body = await fetch_resource(html_url, true, provider);
+    return parse_html(body, html_url);
+}
+
+/**
+ * Parse a JSON content into an object.
+ *
+ * @param body - the JSON content
+ * @param json_url - the URL of the content, used in the error messages
+ * @return - the parsed JSON content
+ * @throws [[R2EPUBError]] with the `PARSE_ERROR` code if something goes wrong with JSON Parsing
+ */
+export function parse_json(body :string, json_url :string) :any {
     try {
-        const body = await fetch_resource(json_url, true);
         return JSON.parse(body);
     } catch (err) {
-        throw new Error(`JSON parsing error in ${json_url}: ${err}`);
+        throw new R2EPUBError(`JSON parsing error in ${json_url}: ${err}`, 'PARSE_ERROR', json_url);
     }
 }
 
+/**
+ * Fetch an JSON file via [[fetch_resource]] and parse the result into an object.
+ *
+ * @async
+ * @param json_url
+ * @param provider - the resource provider to use
+ * @return - the parsed JSON content
+ * @throws [[FetchError]] if something goes wrong with fetch, [[R2EPUBError]] with the `PARSE_ERROR` code if something goes wrong with JSON Parsing
+ */
+export async function fetch_json(json_url :string, provider :ResourceProvider = default_provider) :Promise<any> {
+    // Note that if this was used in a browser only, there are shortcuts in the fetch function for this, but that is not the case for
+    // node-fetch. :-(
+    const body = await fetch_resource(json_url, true, provider);
+    return parse_json(body, json_url);
+}
@@ -0,0 +1,739 @@
+/**
+ * ## Image optimization
+ *
+ * Images, in particular the PNG diagrams of specifications, may be unnecessarily large. If requested (see [[ImageOptions]]), the images are optimized before being stored in the
+ * EPUB file:
+ *
+ * * PNG images are decoded and re-encoded with the best filter for each row and maximal compression, after removing the metadata chunks (texts, time stamps, EXIF data, etc.).
+ *   Images exceeding the maximal dimensions are scaled down (the result is then an RGB or RGBA image with 8 bits per channel). Interlaced images are only stripped of their metadata.
+ * * JPEG images are stripped of their metadata (EXIF, XMP, IPTC, comments). The EXIF data is kept if it sets the orientation of the image, and the color profile is
+ *   kept, too (unless the re-encoding changes the color model of the image, e.g., for CMYK images). The images are decoded and re-encoded with the quality set in the options; images exceeding the maximal dimensions are scaled down. Note that the
+ *   re-encoding is lossy; with the `recompress` option set to `false` the image data is kept unchanged (unless the image is scaled down).
+ *
+ * Everything is implemented in Javascript (relying on [pako](https://github.com/nodeca/pako) for compression and [jpeg-js](https://github.com/jpeg-js/jpeg-js) for the JPEG codec),
+ * i.e., there is no dependency on native modules.
+ *
+ * The optimized version of an image is used only if it is smaller than the original (unless it has been scaled down).
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as pako        from 'pako';
+import * as jpeg        from 'jpeg-js';
+import * as constants   from './constants';
+import { byte_length } from './progress';
+
+/**
+ * Options for the image optimization.
+ */
+export interface ImageOptions {
+    /** Maximal width of the images in pixels; wider images are scaled down. */
+    maxWidth?      :number,
+
+    /** Maximal height of the images in pixels; higher images are scaled down. */
+    maxHeight?     :number,
+
+    /** Whether the metadata should be removed from the images. Default: `true`. */
+    stripMetadata? :boolean,
+
+    /** Whether the images should be recompressed (losslessly for PNG, with the [[quality]] value for JPEG). Default: `true`. */
+    recompress?    :boolean,
+
+    /** Quality (between 1 and 100) of the re-encoded JPEG images. Default: [[default_jpeg_quality]]. */
+    quality?       :number
+}
+
+/**
+ * Default quality of the re-encoded JPEG images.
+ */
+export const default_jpeg_quality :number = 85;
+
+/**
+ * Result of the optimization of a single image.
+ */
+export interface ImageResult {
+    /** The (possibly) optimized content */
+    content  :any,
+
+    /** The size of the original content in bytes */
+    original :number,
+
+    /** The size of the final content in bytes */
+    final    :number
+}
+
+/**
+ * The media types handled by the optimization.
+ */
+export const optimized_media_types :string[] = [constants.media_types.png, 'image/jpeg'];
+
+/* ------------------------------------------------- Generic utilities ---------------------------------------------- */
+
+/**
+ * Table for the CRC computation of PNG chunks.
+ *
+ * @hidden
+ */
+const crc_table :Uint32Array = (() :Uint32Array => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = (c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1);
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * CRC32 value of a byte sequence, as used in PNG.
+ *
+ * @hidden
+ */
+function crc32(bytes :Uint8Array) :number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = crc_table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Concatenate byte arrays.
+ *
+ * @hidden
+ */
+function concat(arrays :Uint8Array[]) :Uint8Array {
+    const retval = new Uint8Array(arrays.reduce((total :number, array :Uint8Array) :number => total + array.length, 0));
+    let offset = 0;
+    arrays.forEach((array :Uint8Array) :void => {
+        retval.set(array, offset);
+        offset += array.length;
+    });
+    return retval;
+}
+
+/**
+ * Read a big endian unsigned 32 bit integer.
+ *
+ * @hidden
+ */
+function read_uint32(bytes :Uint8Array, offset :number) :number {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+/**
+ * Write a big endian unsigned 32 bit integer.
+ *
+ * @hidden
+ */
+function write_uint32(bytes :Uint8Array, offset :number, value :number) :void {
+    bytes[offset]     = (value >>> 24) & 0xff;
+    bytes[offset + 1] = (value >>> 16) & 0xff;
+    bytes[offset + 2] = (value >>> 8) & 0xff;
+    bytes[offset + 3] = value & 0xff;
+}
+
+/* ------------------------------------------------------- PNG ------------------------------------------------------ */
+
+/**
+ * The PNG file signature.
+ *
+ * @hidden
+ */
+const png_signature :number[] = [137, 80, 78, 71, 13, 10, 26, 10];
+
+/**
+ * Ancillary PNG chunks that are kept when stripping the metadata: they influence the rendering of the image.
+ *
+ * @hidden
+ */
+const png_rendering_chunks :string[] = ['cHRM', 'gAMA', 'iCCP', 'sBIT', 'sRGB', 'tRNS'];
+
+/**
+ * PNG chunks that depend on the color type and bit depth of the image; they must be removed if the image is scaled (and hence converted to RGB(A)).
+ *
+ * @hidden
+ */
+const png_color_chunks :string[] = ['PLTE', 'tRNS', 'sBIT', 'bKGD', 'hIST'];
+
+/**
+ * Number of channels for the PNG color types.
+ *
+ * @hidden
+ */
+const png_channels :{[color_type :number] :number} = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** @hidden */
+interface Chunk {
+    type :string,
+    data :Uint8Array
+}
+
+/** @hidden */
+interface Header {
+    width      :number,
+    height     :number,
+    bit_depth  :number,
+    color_type :number,
+    interlace  :number
+}
+
+/**
+ * Split a PNG file into its chunks; returns `null` if the content is not a (valid) PNG file.
+ *
+ * @hidden
+ */
+function read_chunks(bytes :Uint8Array) :Chunk[] {
+    if (bytes.length < 8 || !png_signature.every((value :number, index :number) :boolean => bytes[index] === value)) {
+        return null;
+    }
+    const retval :Chunk[] = [];
+    let offset = 8;
+    while (offset + 12 <= bytes.length) {
+        const length = read_uint32(bytes, offset);
+        if (offset + 12 + length > bytes.length) return null;
+        const type = String.fromCharCode(...Array.from(bytes.subarray(offset + 4, offset + 8)));
+        retval.push({ type, data : bytes.subarray(offset + 8, offset + 8 + length) });
+        offset += 12 + length;
+        if (type === 'IEND') return retval;
+    }
+    return null;
+}
+
+/**
+ * Create a PNG file from its chunks.
+ *
+ * @hidden
+ */
+function write_chunks(chunks :Chunk[]) :Uint8Array {
+    return concat([Uint8Array.from(png_signature), ...chunks.map((chunk :Chunk) :Uint8Array => {
+        const retval = new Uint8Array(chunk.data.length + 12);
+        write_uint32(retval, 0, chunk.data.length);
+        for (let i = 0; i < 4; i++) retval[4 + i] = chunk.type.charCodeAt(i);
+        retval.set(chunk.data, 8);
+        write_uint32(retval, 8 + chunk.data.length, crc32(retval.subarray(4, 8 + chunk.data.length)));
+        return retval;
+    })]);
+}
+
+/**
+ * Parse the IHDR chunk.
+ *
+ * @hidden
+ */
+function read_header(chunk :Chunk) :Header {
+    return {
+        width      : read_uint32(chunk.data, 0),
+        height     : read_uint32(chunk.data, 4),
+        bit_depth  : chunk.data[8],
+        color_type : chunk.data[9],
+        interlace  : chunk.data[12]
+    };
+}
+
+/**
+ * Create an IHDR chunk.
+ *
+ * @hidden
+ */
+function write_header(header :Header) :Chunk {
+    const data = new Uint8Array(13);
+    write_uint32(data, 0, header.width);
+    write_uint32(data, 4, header.height);
+    data[8]  = header.bit_depth;
+    data[9]  = header.color_type;
+    data[12] = header.interlace;
+    return { type : 'IHDR', data };
+}
+
+/**
+ * The Paeth predictor of the PNG filters.
+ *
+ * @hidden
+ */
+function paeth(a :number, b :number, c :number) :number {
+    const p  = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    return (pa <= pb && pa <= pc) ? a : (pb <= pc ? b : c);
+}
+
+/**
+ * Apply a PNG filter on a row (or, if `decode` is set, reverse it). The `out` array receives the result.
+ *
+ * @hidden
+ */
+function filter_row(type :number, row :Uint8Array, previous :Uint8Array, bpp :number, out :Uint8Array, decode :boolean) :void {
+    for (let i = 0; i < row.length; i++) {
+        // For decoding, the left neighbour is the already decoded value
+        const left  = i >= bpp ? (decode ? out[i - bpp] : row[i - bpp]) : 0;
+        const up    = previous !== null ? previous[i] : 0;
+        const diag  = i >= bpp && previous !== null ? previous[i - bpp] : 0;
+        let predictor :number;
+        switch (type) {
+            case 1: predictor = left; break;
+            case 2: predictor = up; break;
+            case 3: predictor = (left + up) >>> 1; break;
+            case 4: predictor = paeth(left, up, diag); break;
+            default: predictor = 0;
+        }
+        out[i] = decode ? (row[i] + predictor) & 0xff : (row[i] - predictor) & 0xff;
+    }
+}
+
+/**
+ * Reverse the PNG filters on the (decompressed) image data; returns `null` if the data is truncated.
+ *
+ * @hidden
+ */
+function unfilter(data :Uint8Array, height :number, stride :number, bpp :number) :Uint8Array {
+    if (data.length < height * (stride + 1)) return null;
+    const retval = new Uint8Array(height * stride);
+    let previous :Uint8Array = null;
+    for (let y = 0; y < height; y++) {
+        const type = data[y * (stride + 1)];
+        const row  = data.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        const out  = retval.subarray(y * stride, (y + 1) * stride);
+        filter_row(type, row, previous, bpp, out, true);
+        previous = out;
+    }
+    return retval;
+}
+
+/**
+ * Apply the PNG filters on the image data: the filter for each row is chosen with the usual “minimum sum of absolute differences” heuristics, unless
+ * `adaptive` is false (which is recommended for palette images and for bit depths less than 8).
+ *
+ * @hidden
+ */
+function filter(pixels :Uint8Array, height :number, stride :number, bpp :number, adaptive :boolean) :Uint8Array {
+    const retval = new Uint8Array(height * (stride + 1));
+    const candidate = new Uint8Array(stride);
+    for (let y = 0; y < height; y++) {
+        const row      = pixels.subarray(y * stride, (y + 1) * stride);
+        const previous = y > 0 ? pixels.subarray((y - 1) * stride, y * stride) : null;
+        const out      = retval.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        let best_type  = 0;
+        out.set(row);
+        if (adaptive) {
+            let best_sum = Infinity;
+            for (let type = 0; type < 5; type++) {
+                filter_row(type, row, previous, bpp, candidate, false);
+                let sum = 0;
+                for (let i = 0; i < stride && sum < best_sum; i++) sum += candidate[i] < 128 ? candidate[i] : 256 - candidate[i];
+                if (sum < best_sum) {
+                    best_sum  = sum;
+                    best_type = type;
+                    out.set(candidate);
+                }
+            }
+        }
+        retval[y * (stride + 1)] = best_type;
+    }
+    return retval;
+}
+
+/**
+ * Convert the (unfiltered) pixel data into RGBA with 8 bits per channel.
+ *
+ * @hidden
+ */
+function to_rgba(pixels :Uint8Array, header :Header, palette :Uint8Array, transparency :Uint8Array) :Uint8Array {
+    const { width, height, bit_depth, color_type } = header;
+    const channels = png_channels[color_type];
+    const stride   = Math.ceil(width * channels * bit_depth / 8);
+    const max      = (1 << bit_depth) - 1;
+    const retval   = new Uint8Array(width * height * 4);
+
+    // Get a sample value in its original bit depth
+    const sample = (row :number, index :number) :number => {
+        if (bit_depth === 8) {
+            return pixels[row * stride + index];
+        } else if (bit_depth === 16) {
+            return (pixels[row * stride + 2 * index] << 8) | pixels[row * stride + 2 * index + 1];
+        } else {
+            const bit = index * bit_depth;
+            return (pixels[row * stride + (bit >> 3)] >> (8 - bit_depth - (bit & 7))) & max;
+        }
+    };
+    // Scale a sample to 8 bits
+    const scale = (value :number) :number => bit_depth === 16 ? value >> 8 : (bit_depth === 8 ? value : Math.round(value * 255 / max));
+    // The color key for transparency, for gray and RGB images
+    const key :number[] = transparency !== null && (color_type === 0 || color_type === 2)
+        ? [0, 2, 4].slice(0, color_type === 0 ? 1 : 3).map((offset :number) :number => (transparency[offset] << 8) | transparency[offset + 1])
+        : null;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const out = (y * width + x) * 4;
+            const values :number[] = [];
+            for (let c = 0; c < channels; c++) values.push(sample(y, x * channels + c));
+            switch (color_type) {
+                case 0:
+                    retval[out] = retval[out + 1] = retval[out + 2] = scale(values[0]);
+                    retval[out + 3] = key !== null && values[0] === key[0] ? 0 : 255;
+                    break;
+                case 2:
+                    retval[out] = scale(values[0]); retval[out + 1] = scale(values[1]); retval[out + 2] = scale(values[2]);
+                    retval[out + 3] = key !== null && values[0] === key[0] && values[1] === key[1] && values[2] === key[2] ? 0 : 255;
+                    break;
+                case 3:
+                    retval[out] = palette[3 * values[0]]; retval[out + 1] = palette[3 * values[0] + 1]; retval[out + 2] = palette[3 * values[0] + 2];
+                    retval[out + 3] = transparency !== null && values[0] < transparency.length ? transparency[values[0]] : 255;
+                    break;
+                case 4:
+                    retval[out] = retval[out + 1] = retval[out + 2] = scale(values[0]);
+                    retval[out + 3] = scale(values[1]);
+                    break;
+                case 6:
+                    retval[out] = scale(values[0]); retval[out + 1] = scale(values[1]); retval[out + 2] = scale(values[2]);
+                    retval[out + 3] = scale(values[3]);
+                    break;
+            }
+        }
+    }
+    return retval;
+}
+
+/**
+ * Scale down an RGBA image, averaging the source pixels covered by each target pixel (weighted by their alpha values).
+ *
+ * @hidden
+ */
+function scale_down(rgba :Uint8Array, width :number, height :number, new_width :number, new_height :number) :Uint8Array {
+    const retval = new Uint8Array(new_width * new_height * 4);
+    const x_ratio = width / new_width;
+    const y_ratio = height / new_height;
+    for (let y = 0; y < new_height; y++) {
+        const y_start = Math.floor(y * y_ratio);
+        const y_end   = Math.max(y_start + 1, Math.floor((y + 1) * y_ratio));
+        for (let x = 0; x < new_width; x++) {
+            const x_start = Math.floor(x * x_ratio);
+            const x_end   = Math.max(x_start + 1, Math.floor((x + 1) * x_ratio));
+            let r = 0, g = 0, b = 0, a = 0, count = 0;
+            for (let sy = y_start; sy < y_end; sy++) {
+                for (let sx = x_start; sx < x_end; sx++) {
+                    const index = (sy * width + sx) * 4;
+                    const alpha = rgba[index + 3];
+                    r += rgba[index] * alpha;
+                    g += rgba[index + 1] * alpha;
+                    b += rgba[index + 2] * alpha;
+                    a += alpha;
+                    count++;
+                }
+            }
+            const out = (y * new_width + x) * 4;
+            if (a > 0) {
+                retval[out]     = Math.round(r / a);
+                retval[out + 1] = Math.round(g / a);
+                retval[out + 2] = Math.round(b / a);
+            }
+            retval[out + 3] = Math.round(a / count);
+        }
+    }
+    return retval;
+}
+
+/**
+ * Optimize a PNG image; returns `null` if the image cannot be handled.
+ *
+ * @hidden
+ */
+function optimize_png(bytes :Uint8Array, options :ImageOptions) :{content :Uint8Array, scaled :boolean} {
+    const chunks :Chunk[] = read_chunks(bytes);
+    if (chunks === null || chunks[0].type !== 'IHDR') return null;
+
+    const header :Header = read_header(chunks[0]);
+    const max_width  = options.maxWidth || Infinity;
+    const max_height = options.maxHeight || Infinity;
+    const to_scale :boolean = header.interlace === 0 && (header.width > max_width || header.height > max_height);
+    const recompress :boolean = header.interlace === 0 && options.recompress !== false;
+
+    // Filter the chunks: the metadata may be removed, and the image data chunks are collected
+    const strip :boolean = options.stripMetadata !== false;
+    const kept :Chunk[] = chunks.filter((chunk :Chunk) :boolean => {
+        if (to_scale && png_color_chunks.includes(chunk.type)) {
+            return false;
+        } else if (strip && chunk.type[0] === chunk.type[0].toLowerCase()) {
+            // ancillary chunk
+            return png_rendering_chunks.includes(chunk.type);
+        } else {
+            return true;
+        }
+    });
+
+    if (!(recompress || to_scale)) {
+        return { content : write_chunks(kept), scaled : false };
+    }
+
+    // Decode the image data
+    const data = pako.inflate(concat(chunks.filter((chunk :Chunk) :boolean => chunk.type === 'IDAT').map((chunk :Chunk) :Uint8Array => chunk.data)));
+    const bits_per_pixel = png_channels[header.color_type] * header.bit_depth;
+    const bpp    = Math.max(1, bits_per_pixel >> 3);
+    const stride = Math.ceil(header.width * bits_per_pixel / 8);
+    let pixels :Uint8Array = unfilter(data, header.height, stride, bpp);
+    if (pixels === null) return null;
+
+    let new_header :Header = header;
+    if (to_scale) {
+        const find = (type :string) :Uint8Array => {
+            const chunk = chunks.find((c :Chunk) :boolean => c.type === type);
+            return chunk !== undefined ? chunk.data : null;
+        };
+        const ratio = Math.min(max_width / header.width, max_height / header.height);
+        const new_width  = Math.max(1, Math.round(header.width * ratio));
+        const new_height = Math.max(1, Math.round(header.height * ratio));
+        const rgba = scale_down(to_rgba(pixels, header, find('PLTE'), find('tRNS')), header.width, header.height, new_width, new_height);
+
+        // The alpha channel is dropped if it is not needed
+        let opaque = true;
+        for (let i = 3; i < rgba.length && opaque; i += 4) opaque = rgba[i] === 255;
+        if (opaque) {
+            pixels = new Uint8Array(new_width * new_height * 3);
+            for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+                pixels[j] = rgba[i]; pixels[j + 1] = rgba[i + 1]; pixels[j + 2] = rgba[i + 2];
+            }
+        } else {
+            pixels = rgba;
+        }
+        new_header = { width : new_width, height : new_height, bit_depth : 8, color_type : opaque ? 2 : 6, interlace : 0 };
+    }
+
+    // Encode the image data
+    const new_bits_per_pixel = png_channels[new_header.color_type] * new_header.bit_depth;
+    const new_stride = Math.ceil(new_header.width * new_bits_per_pixel / 8);
+    const adaptive = new_header.color_type !== 3 && new_header.bit_depth >= 8;
+    const filtered = filter(pixels, new_header.height, new_stride, Math.max(1, new_bits_per_pixel >> 3), adaptive);
+    const idat :Chunk = { type : 'IDAT', data : pako.deflate(filtered, { level : 9, memLevel : 9 }) };
+
+    // Put the chunks together, with the new image data in place of the original ones
+    const first_idat = kept.findIndex((chunk :Chunk) :boolean => chunk.type === 'IDAT');
+    const final_chunks :Chunk[] = [
+        write_header(new_header),
+        ...kept.slice(1, first_idat),
+        idat,
+        ...kept.slice(first_idat).filter((chunk :Chunk) :boolean => chunk.type !== 'IDAT')
+    ];
+    return { content : write_chunks(final_chunks), scaled : to_scale };
+}
+
+/* ------------------------------------------------------- JPEG ----------------------------------------------------- */
+
+/**
+ * Check whether an EXIF segment sets an orientation different from the default; in that case, the segment must be kept.
+ *
+ * @hidden
+ */
+function exif_orientation_set(segment :Uint8Array) :boolean {
+    // The segment content starts with 'Exif\0\0', followed by a TIFF structure
+    const tiff = segment.subarray(4 + 6);
+    if (segment.length < 4 + 6 + 8 || String.fromCharCode(...Array.from(segment.subarray(4, 8))) !== 'Exif') return false;
+    const little = tiff[0] === 0x49;
+    const uint16 = (offset :number) :number => little ? tiff[offset] | (tiff[offset + 1] << 8) : (tiff[offset] << 8) | tiff[offset + 1];
+    const uint32 = (offset :number) :number => little
+        ? (tiff[offset] | (tiff[offset + 1] << 8) | (tiff[offset + 2] << 16) | (tiff[offset + 3] << 24)) >>> 0
+        : read_uint32(tiff, offset);
+    const ifd = uint32(4);
+    if (ifd + 2 > tiff.length) return false;
+    const entries = uint16(ifd);
+    for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > tiff.length) return false;
+        if (uint16(entry) === 0x0112) {
+            // Orientation tag
+            return uint16(entry + 8) !== 1;
+        }
+    }
+    return false;
+}
+
+/** @hidden */
+interface Segment {
+    marker :number,
+    bytes  :Uint8Array
+}
+
+/**
+ * Split a JPEG file into the segments preceding the image data and the image data itself (starting with the start of scan segment);
+ * returns `null` if the content is not a (valid) JPEG file.
+ *
+ * @hidden
+ */
+function read_segments(bytes :Uint8Array) :{segments :Segment[], scan :Uint8Array} {
+    if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+    const segments :Segment[] = [];
+    let offset = 2;
+    while (offset + 4 <= bytes.length) {
+        if (bytes[offset] !== 0xff) return null;
+        const marker = bytes[offset + 1];
+        if (marker === 0xff) {
+            // fill byte
+            offset++;
+            continue;
+        }
+        if (marker === 0xda) {
+            // Start of scan: the rest is the image data
+            return { segments, scan : bytes.subarray(offset) };
+        }
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        if (offset + 2 + length > bytes.length) return null;
+        segments.push({ marker, bytes : bytes.subarray(offset, offset + 2 + length) });
+        offset += 2 + length;
+    }
+    return null;
+}
+
+/**
+ * Whether a JPEG segment is a metadata segment, i.e., an APPn segment or a comment.
+ *
+ * @hidden
+ */
+const is_metadata = (segment :Segment) :boolean => (segment.marker >= 0xe0 && segment.marker <= 0xef) || segment.marker === 0xfe;
+
+/**
+ * Whether a JPEG segment is an APP2 segment containing (part of) an ICC color profile.
+ *
+ * @hidden
+ */
+const is_icc_profile = (segment :Segment) :boolean => segment.marker === 0xe2 && String.fromCharCode(...Array.from(segment.bytes.subarray(4, 15))) === 'ICC_PROFILE';
+
+/**
+ * Number of color components of a JPEG image, as set in the start of frame segment; 0 if there is no such segment.
+ *
+ * @hidden
+ */
+function component_count(segments :Segment[]) :number {
+    // SOFn markers; 0xc4 (DHT), 0xc8 (JPG), and 0xcc (DAC) are not frame headers
+    const frame :Segment = segments.find((segment :Segment) :boolean => segment.marker >= 0xc0 && segment.marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(segment.marker));
+    return frame === undefined || frame.bytes.length < 10 ? 0 : frame.bytes[9];
+}
+
+/**
+ * Whether a JPEG metadata segment is kept when the metadata is stripped: the APP0 (JFIF), APP2 (if it contains an ICC color profile), and APP14 (Adobe color transform)
+ * segments are kept; so is APP1 if it is an EXIF segment setting the orientation of the image. All other APPn segments and the comments are removed.
+ *
+ * @hidden
+ */
+function keep_when_stripped(segment :Segment) :boolean {
+    if (segment.marker === 0xe1) {
+        return exif_orientation_set(segment.bytes);
+    } else if (segment.marker === 0xe2) {
+        return is_icc_profile(segment);
+    } else if ((segment.marker >= 0xe3 && segment.marker <= 0xef && segment.marker !== 0xee) || segment.marker === 0xfe) {
+        return false;
+    } else {
+        return true;
+    }
+}
+
+/**
+ * Optimize a JPEG image; returns `null` if the image cannot be handled.
+ *
+ * If the image is re-encoded (or scaled down), the metadata segments of the original image (i.e., all of them, or only the ones listed in [[keep_when_stripped]]) are copied into the new image,
+ * except for the APP0 and APP14 segments, which describe the encoding itself. The re-encoded image is always an RGB (YCbCr) image; the ICC color profile is therefore
+ * dropped if the original image has a different color model (grayscale, CMYK, or YCCK), because the profile would not match the new image data.
+ *
+ * @hidden
+ */
+function optimize_jpeg(bytes :Uint8Array, options :ImageOptions) :{content :Uint8Array, scaled :boolean} {
+    const original = read_segments(bytes);
+    if (original === null) return null;
+
+    const strip :boolean = options.stripMetadata !== false;
+    const kept :Segment[] = original.segments.filter((segment :Segment) :boolean => !strip || !is_metadata(segment) || keep_when_stripped(segment));
+    const max_width  = options.maxWidth || Infinity;
+    const max_height = options.maxHeight || Infinity;
+    const recompress :boolean = options.recompress !== false;
+
+    let image :jpeg.RawImageData<Uint8Array> = null;
+    if (recompress || max_width !== Infinity || max_height !== Infinity) {
+        image = jpeg.decode(bytes, { useTArray : true, formatAsRGBA : true });
+    }
+    const to_scale :boolean = image !== null && (image.width > max_width || image.height > max_height);
+
+    if (!(recompress || to_scale)) {
+        return { content : concat([bytes.subarray(0, 2), ...kept.map((segment :Segment) :Uint8Array => segment.bytes), original.scan]), scaled : false };
+    }
+
+    if (to_scale) {
+        const ratio = Math.min(max_width / image.width, max_height / image.height);
+        const new_width  = Math.max(1, Math.round(image.width * ratio));
+        const new_height = Math.max(1, Math.round(image.height * ratio));
+        image = { width : new_width, height : new_height, data : scale_down(image.data, image.width, image.height, new_width, new_height) };
+    }
+
+    const quality :number = Math.min(100, Math.max(1, Number(options.quality) || default_jpeg_quality));
+    const encoded = read_segments(new Uint8Array(jpeg.encode(image, quality).data));
+    if (encoded === null) return null;
+
+    // The new JFIF segment comes first, followed by the metadata of the original image, and the new encoding tables
+    const jfif :Segment[] = encoded.segments.filter((segment :Segment) :boolean => segment.marker === 0xe0);
+    const same_colors :boolean = component_count(original.segments) === 3;
+    const metadata :Segment[] = kept.filter((segment :Segment) :boolean => {
+        return is_metadata(segment) && segment.marker !== 0xe0 && segment.marker !== 0xee && (same_colors || !is_icc_profile(segment));
+    });
+    const tables :Segment[] = encoded.segments.filter((segment :Segment) :boolean => !is_metadata(segment));
+    return {
+        content : concat([bytes.subarray(0, 2), ...[...jfif, ...metadata, ...tables].map((segment :Segment) :Uint8Array => segment.bytes), encoded.scan]),
+        scaled  : to_scale
+    };
+}
+
+/* -------------------------------------------------- Entry point --------------------------------------------------- */
+
+/**
+ * Optimize an image. If the image cannot be handled (e.g., the media type is not PNG or JPEG, or the content is invalid), or the optimized
+ * version is not smaller, the original content is returned.
+ *
+ * @param content - the image content (a Buffer in node.js, a Blob in a browser)
+ * @param media_type - the media type of the image
+ * @param options - the optimization options
+ * @returns - the result, including the original and final sizes
+ * @async
+ */
+export async function optimize_image(content :any, media_type :string, options :ImageOptions) :Promise<ImageResult> {
+    const size :number = byte_length(content);
+    if (!optimized_media_types.includes(media_type) || typeof content === 'string') {
+        return { content, original : size, final : size };
+    }
+
+    const bytes :Uint8Array = constants.is_browser && content instanceof Blob ? new Uint8Array(await content.arrayBuffer()) : content;
+    let optimized :Uint8Array = null;
+    let scaled = false;
+    try {
+        if (media_type === constants.media_types.png) {
+            const result = optimize_png(bytes, options);
+            if (result !== null) {
+                optimized = result.content;
+                scaled    = result.scaled;
+            }
+        } else {
+            const result = optimize_jpeg(bytes, options);
+            if (result !== null) {
+                optimized = result.content;
+                scaled    = result.scaled;
+            }
+        }
+    } catch (err) {
+        // Invalid image data; the image is simply stored as is
+        optimized = null;
+    }
+
+    if (optimized !== null && (scaled || optimized.length < size)) {
+        return {
+            content  : constants.is_browser ? optimized : Buffer.from(optimized.buffer, optimized.byteOffset, optimized.length),
+            original : size,
+            final    : optimized.length
+        };
+    } else {
+        return { content, original : size, final : size };
+    }
+}
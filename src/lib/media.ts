@@ -0,0 +1,106 @@
+/**
+ * ## Media references
+ *
+ * Utilities to extract the URLs of the media resources (images, audio, video, text tracks) referred to from an HTML element. Besides the simple `src` attribute, an element may refer to media via
+ *
+ * * the `srcset` attribute of `<img>` and `<source>` (the latter, e.g., within a `<picture>` element), listing several image candidates;
+ * * the `poster` attribute of `<video>`;
+ * * the `href` or `xlink:href` attribute of an `<image>` element in inline SVG.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as urlHandler from 'url';
+
+/**
+ * CSS selector for all the elements that may refer to media resources.
+ */
+export const media_elements :string = 'img, audio, video, source, track, svg image';
+
+/**
+ * Extract the URLs from a `srcset` attribute value (see the [HTML specification](https://html.spec.whatwg.org/multipage/images.html#parsing-a-srcset-attribute)). Each image
+ * candidate consists of a URL, optionally followed by a width or density descriptor; candidates are separated by commas.
+ *
+ * @param srcset - the attribute value
+ * @returns - the list of URLs
+ */
+export function srcset_urls(srcset :string) :string[] {
+    const retval :string[] = [];
+    let rest :string = srcset;
+    for (;;) {
+        // Skip the separators
+        rest = rest.replace(/^[\s,]+/, '');
+        if (rest === '') {
+            return retval;
+        }
+        const url :string = rest.match(/^\S+/)[0];
+        rest = rest.slice(url.length);
+        if (url.endsWith(',')) {
+            // There are no descriptors
+            retval.push(url.replace(/,+$/, ''));
+        } else {
+            retval.push(url);
+            // Skip the descriptors up to the next candidate
+            const next :number = rest.indexOf(',');
+            rest = next === -1 ? '' : rest.slice(next + 1);
+        }
+    }
+}
+
+/**
+ * Collect all the media URLs an element refers to.
+ *
+ * @param element - an HTML (or inline SVG) element
+ * @returns - the list of URLs
+ */
+export function media_urls(element :Element) :string[] {
+    const retval :string[] = [];
+    ['src', 'poster', 'href', 'xlink:href'].forEach((attr :string) :void => {
+        if (element.hasAttribute(attr)) retval.push(element.getAttribute(attr));
+    });
+    if (element.hasAttribute('srcset')) {
+        retval.push(...srcset_urls(element.getAttribute('srcset')));
+    }
+    return retval;
+}
+
+/**
+ * CSS selector for the elements, other than the media elements, that may refer to resources used for the rendering of the document.
+ *
+ * @hidden
+ */
+const resource_elements :string = 'script, iframe, embed, link[rel~="stylesheet"], object';
+
+/**
+ * Whether a URL refers to a remote resource, i.e., whether it is an absolute `http` or `https` URL.
+ *
+ * @param url - the URL, as it appears in the document
+ */
+export function is_remote_url(url :string) :boolean {
+    if (url) {
+        const protocol = urlHandler.parse(url.trim()).protocol;
+        return protocol === 'http:' || protocol === 'https:';
+    } else {
+        return false;
+    }
+}
+
+/**
+ * Whether a content document refers to remote resources: media resources (see [[media_urls]]), scripts, stylesheets, or embedded content with an absolute URL.
+ * If so, the [`remote-resources`](https://www.w3.org/publishing/epub32/epub-packages.html#sec-remote-resources) manifest item property must be set for the document.
+ *
+ * @param root - the top level element (or the document itself)
+ */
+export function refers_to_remote_resources(root :ParentNode) :boolean {
+    const media :string[] = Array.from(root.querySelectorAll(media_elements)).map(media_urls).reduce((all :string[], urls :string[]) :string[] => [...all, ...urls], []);
+    const others :string[] = Array.from(root.querySelectorAll(resource_elements)).map((element :Element) :string => {
+        const name = element.localName.toLowerCase();
+        return element.getAttribute(name === 'link' ? 'href' : (name === 'object' ? 'data' : 'src'));
+    });
+    return [...media, ...others].some(is_remote_url);
+}
@@ -0,0 +1,113 @@
+/**
+ * ## Additional metadata
+ *
+ * Besides the title, the editors, and the dates, the package file gets the following metadata, taken from the ReSpec configuration (see the
+ * [ReSpec documentation](https://respec.org/docs/) for the configuration options) and the document:
+ *
+ * * `subtitle`: additional `dc:title` entry, refined as a subtitle;
+ * * the abstract of the document (i.e., `section#abstract`, without its heading): `dc:description`;
+ * * `authors`: `dc:creator` entries with the role `aut` (the editors have the role `edt`);
+ * * `formerEditors`: `dc:contributor` entries with the role `edt`;
+ * * `wg` (or, if not set, `group`): `dc:subject` entries and, for each group, a `belongs-to-collection` entry of type `series` (with the `wgURI` value, if any, as identifier);
+ * * `latestVersion`, `edDraftURI`, and `github`: `dc:source` entries.
+ *
+ * Missing or malformed configuration values are ignored.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as _     from 'underscore';
+import { Global } from './convert';
+
+/**
+ * Normalize the whitespaces of a text.
+ *
+ * @hidden
+ */
+const normalize = (text :string) :string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Turn a configuration value into an array: `undefined` and `null` become an empty array, a single value becomes a one-element array.
+ *
+ * @hidden
+ */
+const as_list = (value :any) :any[] => (value === undefined || value === null) ? [] : (Array.isArray(value) ? value : [value]);
+
+/**
+ * The name of a person in the ReSpec configuration (i.e., an entry in `editors`, `authors`, etc.), with the company, if any.
+ *
+ * @hidden
+ */
+const person = (entry :any) :string => entry.company !== undefined ? `${entry.name}, ${entry.company}` : `${entry.name}`;
+
+/**
+ * The names of the persons in a ReSpec configuration entry.
+ *
+ * @hidden
+ */
+const persons = (value :any) :string[] => as_list(value).filter((entry :any) :boolean => entry && typeof entry.name === 'string').map(person);
+
+/**
+ * The absolute URLs of a ReSpec configuration entry.
+ *
+ * @hidden
+ */
+const urls = (value :any) :string[] => as_list(value).filter((url :any) :boolean => typeof url === 'string' && /^https?:\/\//.test(url));
+
+/**
+ * The URL of the GitHub repository, as set in the `github` entry of the ReSpec configuration: this may be a URL, an `org/repo` string, or an object with a `repoURL` field.
+ *
+ * @hidden
+ */
+function github_url(github :any) :string[] {
+    const value :any = (github !== null && typeof github === 'object') ? github.repoURL : github;
+    if (typeof value !== 'string' || value.trim() === '') {
+        return [];
+    } else if (/^https?:\/\//.test(value)) {
+        return [value];
+    } else {
+        return [`https://github.com/${value.trim().replace(/^\/+|\/+$/g, '')}`];
+    }
+}
+
+/**
+ * Add the metadata taken from the ReSpec configuration and the document to the package (see the [module description](./_lib_metadata_.html) for the details).
+ *
+ * @param global - the global data of the conversion; the package ([[Global.opf_content]]) must have been created
+ */
+export function add_metadata(global :Global) :void {
+    const config = global.config;
+    const the_opf = global.opf_content;
+
+    if (typeof config.subtitle === 'string' && normalize(config.subtitle) !== '') {
+        the_opf.add_subtitle(normalize(config.subtitle));
+    }
+
+    const abstract :Element = global.html_element.querySelector('section#abstract');
+    if (abstract !== null) {
+        const copy = abstract.cloneNode(true) as Element;
+        Array.from(copy.querySelectorAll('h1, h2, h3, h4, h5, h6')).forEach((heading :Element) :void => heading.remove());
+        const description = normalize(copy.textContent);
+        if (description !== '') the_opf.add_description(description);
+    }
+
+    the_opf.add_creators(persons(config.authors), 'aut');
+    the_opf.add_contributors(persons(config.formerEditors), 'edt');
+
+    const groups :string[] = as_list(as_list(config.wg).length > 0 ? config.wg : config.group)
+        .filter((group :any) :boolean => typeof group === 'string' && normalize(group) !== '')
+        .map(normalize);
+    const group_urls :any[] = as_list(config.wgURI);
+    the_opf.add_subjects(groups);
+    groups.forEach((group :string, index :number) :void => {
+        const identifier = urls(group_urls[index])[0];
+        the_opf.add_collection(group, 'series', identifier);
+    });
+
+    the_opf.add_sources(_.uniq([...urls(config.latestVersion), ...urls(config.edDraftURI), ...github_url(config.github)]));
+}
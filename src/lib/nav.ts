@@ -3,6 +3,16 @@
  *
  * Creation of the navigation file combining a template with the TOC fragment retrieved from the content DOM.
  *
+ * Besides the table of contents, the navigation file also contains
+ *
+ * * a [landmarks](https://www.w3.org/publishing/epub32/epub-packages.html#sec-nav-landmarks) navigation, listing the cover page, the table of contents, the start of the
+ *   body matter, and, if present, the abstract, the status of the document, the references, and the index (found via their usual ReSpec `id` values, see [[landmark_sections]]);
+ * * a [page list](https://www.w3.org/publishing/epub32/epub-packages.html#sec-nav-pagelist), if the document contains page break markers (elements with `role="doc-pagebreak"` or
+ *   `epub:type="pagebreak"`, and an `id`).
+ *
+ * The table of contents is, by default, a copy of the one generated by ReSpec. The [[TOCOptions]] make it possible to limit its depth, and to leave out the appendices
+ * and the non-normative sections, without re-running ReSpec (i.e., also for documents already published). The table of contents in the document itself is not changed.
+ *
  * @packageDocumentation
  */
 
@@ -15,6 +25,8 @@
 import { ResourceRef, Global } from './convert';
 import * as xhtml              from './xhtml';
 import * as constants          from './constants';
+import { MissingTOCError }     from './errors';
+import { fragment_file }       from './split';
 
 
 /**
@@ -23,7 +35,7 @@ import * as constants          from './constants';
  * @hidden
  */
 const nav :string = `<?xml version="1.0"?>
-<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"%%%LANG%%%>
     <head>
         <title>
             %%%Title%%% — Contents
@@ -40,15 +52,217 @@ const nav :string = `<?xml version="1.0"?>
         <nav epub:type="toc" id="toc">
 %%%TOC%%%
         </nav>
+        <nav epub:type="landmarks" id="landmarks" hidden="hidden">
+            <h2>Landmarks</h2>
+%%%LANDMARKS%%%
+        </nav>
+%%%PAGELIST%%%
      </body>
 </html>
 `
 
+/**
+ * Template of the page list navigation
+ *
+ * @hidden
+ */
+const page_list_nav :string = `        <nav epub:type="page-list" id="page-list" hidden="hidden">
+            <h2>Pages</h2>
+%%%PAGES%%%
+        </nav>`
+
+/**
+ * Settings for the table of contents of the navigation file.
+ */
+export interface TOCOptions {
+    /** Maximal depth of the table of contents; deeper entries are removed (or moved up, see `flatten`). Unset or `0` means no limit. */
+    maxDepth?        :number,
+
+    /** If set, the entries deeper than `maxDepth` are moved up to the last allowed level instead of being removed. Default: `false`. */
+    flatten?         :boolean,
+
+    /** Leave out the appendices (sections with the `appendix` class in ReSpec). Default: `false`. */
+    dropAppendices?  :boolean,
+
+    /** Leave out the non-normative sections (sections with the `informative` class in ReSpec). Default: `false`. */
+    dropInformative? :boolean
+}
+
+/**
+ * Limit the depth of a table of contents. The list is modified in place.
+ *
+ * @param toc - the top level `<ol>` element of the table of contents
+ * @param max_depth - the maximal depth; the top level entries are at depth 1
+ * @param flatten - whether the entries deeper than `max_depth` are moved up to depth `max_depth` (in their original order) instead of being removed
+ */
+export function trim_toc(toc :Element, max_depth :number, flatten :boolean = false) :void {
+    const is_tag = (tag :string) => (element :Element) :boolean => element.tagName.toLowerCase() === tag;
+
+    const trim = (ol :Element, depth :number) :void => {
+        Array.from(ol.children).filter(is_tag('li')).forEach((li :Element) :void => {
+            Array.from(li.children).filter(is_tag('ol')).forEach((sub_ol :Element) :void => {
+                if (depth < max_depth) {
+                    trim(sub_ol, depth + 1);
+                } else {
+                    if (flatten) {
+                        const entries = Array.from(sub_ol.querySelectorAll('li'));
+                        entries.forEach((entry :Element) :void => {
+                            Array.from(entry.children).filter(is_tag('ol')).forEach((nested :Element) :void => nested.remove());
+                        });
+                        li.after(...entries);
+                    }
+                    sub_ol.remove();
+                }
+            });
+        });
+    }
+
+    if (max_depth > 0) trim(toc, 1);
+}
+
+/**
+ * Remove the entries of the appendices and/or the non-normative sections from the table of contents (depending on the options). The sections are identified
+ * by the targets of the links in the document. The list is modified in place.
+ *
+ * @param global - global data
+ * @param toc - the table of contents
+ * @param options - the settings for the table of contents
+ */
+function drop_sections(global :Global, toc :Element, options :TOCOptions) :void {
+    const classes :string[] = [
+        ...(options.dropAppendices ? ['appendix'] : []),
+        ...(options.dropInformative ? ['informative'] : []),
+    ];
+    if (classes.length === 0) return;
+
+    const selector = classes.map((name :string) :string => `section.${name}`).join(', ');
+    Array.from(toc.querySelectorAll('a[href^="#"]')).forEach((a :Element) :void => {
+        let id :string;
+        try {
+            id = decodeURIComponent(a.getAttribute('href').slice(1));
+        } catch (err) {
+            id = a.getAttribute('href').slice(1);
+        }
+        const target = global.dom.window.document.getElementById(id);
+        const li = a.closest('li');
+        if (target !== null && target.closest(selector) !== null && li !== null) {
+            li.remove();
+        }
+    });
+}
+
+/**
+ * An entry in a landmarks or page list navigation.
+ */
+export interface NavEntry {
+    /** The (relative) URL of the target */
+    href   :string,
+
+    /** The text of the link */
+    label  :string,
+
+    /** The `epub:type` value of the link (used for landmarks) */
+    type?  :string
+}
+
+/**
+ * The ReSpec sections that are listed as landmarks: mapping from the `id` of the section to the `epub:type` value and to the (default) label. The label is
+ * taken, if possible, from the section heading.
+ */
+export const landmark_sections :{[id :string] :{type :string, label :string}} = {
+    'abstract'   : { type : 'abstract',     label : 'Abstract' },
+    'sotd'       : { type : 'preamble',     label : 'Status of This Document' },
+    'references' : { type : 'bibliography', label : 'References' },
+    'index'      : { type : 'index',        label : 'Index' },
+};
+
+/**
+ * Create an `<ol>` element, serialized as text, with the links of the entries.
+ *
+ * @param document - the document used to create the elements (this takes care of escaping the labels)
+ * @param entries - the navigation entries
+ */
+export function nav_list(document :Document, entries :NavEntry[]) :string {
+    const ol = document.createElement('ol');
+    entries.forEach((entry :NavEntry) :void => {
+        const li = document.createElement('li');
+        const a  = document.createElement('a');
+        if (entry.type) a.setAttribute('epub:type', entry.type);
+        a.setAttribute('href', entry.href);
+        a.textContent = entry.label;
+        li.append(a);
+        ol.append(li);
+    });
+    return ol.outerHTML;
+}
+
+/**
+ * The text content of an element, with whitespaces normalized.
+ *
+ * @hidden
+ */
+const normalized_text = (element :Element) :string => element.textContent.replace(/\s+/g, ' ').trim();
+
+/**
+ * Collect the landmarks of the document: the cover page, the table of contents (in the document itself, the navigation file is not part of the spine), the first
+ * top level section following the table of contents as the start of the body matter, and the sections listed in [[landmark_sections]].
+ *
+ * @param global - global data
+ * @param toc - the `nav#toc` element of the document
+ */
+function landmarks(global :Global, toc :Element) :NavEntry[] {
+    const href = (id :string) :string => `${fragment_file(global, id)}#${id}`;
+    const retval :NavEntry[] = [
+        { type : 'cover', href : 'cover.xhtml', label : 'Cover' }
+    ];
+
+    if (toc.hasAttribute('id')) {
+        const heading = toc.querySelector('h2');
+        retval.push({ type : 'toc', href : href(toc.getAttribute('id')), label : heading ? normalized_text(heading) : 'Table of Contents' });
+    }
+
+    const body_matter = Array.from(global.html_element.querySelector('body').children).find((element :Element) :boolean => {
+        return element.tagName.toLowerCase() === 'section' && (toc.compareDocumentPosition(element) & toc.DOCUMENT_POSITION_FOLLOWING) !== 0;
+    });
+    if (body_matter !== undefined && body_matter.hasAttribute('id')) {
+        retval.push({ type : 'bodymatter', href : href(body_matter.getAttribute('id')), label : 'Start of Content' });
+    }
+
+    Object.keys(landmark_sections).forEach((id :string) :void => {
+        const section = global.html_element.querySelector(`section#${id}`);
+        if (section !== null) {
+            const heading = section.querySelector('h1, h2, h3, h4, h5, h6');
+            retval.push({ type : landmark_sections[id].type, href : href(id), label : heading ? normalized_text(heading) : landmark_sections[id].label });
+        }
+    });
+
+    return retval;
+}
+
+/**
+ * Collect the page break markers of the document, if any.
+ *
+ * @param global - global data
+ */
+function pages(global :Global) :NavEntry[] {
+    return Array.from(global.html_element.querySelectorAll('[role~="doc-pagebreak"][id], [epub\\:type~="pagebreak"][id]'))
+        .map((element :Element) :NavEntry => {
+            const id = element.getAttribute('id');
+            const label = element.getAttribute('aria-label') || element.getAttribute('title') || normalized_text(element);
+            return { href : `${fragment_file(global, id)}#${id}`, label : label || id };
+        });
+}
+
 /**
  * Create a navigation file, and return the necessary resource (to be added to the overall set of resources).
  *
  * The content of the original TOC element is serialized (using the `innerHTML` DOM method) and the result is added to a textual HTML template.
- * The only change on the original content is the replacement of the purely fragment URLs in the TOC with a relative URL to `Overview.xhtml`.
+ * The only change on the original content is the replacement of the purely fragment URLs in the TOC with a relative URL to `Overview.xhtml` (or, if the document is split, to the
+ * content document containing the target; see the [split module](./_lib_split_.html)).
+ *
+ * The landmarks and, if applicable, the page list are added to the template, too. The language and the base direction of the navigation file are those of the document.
+ *
+ * If [[Global.toc]] is set, the table of contents is adjusted accordingly (see [[TOCOptions]]); this is done on a copy, the document itself is not changed.
  *
  * @param global - global data
  * @returns - Resource representing the nav.xhtml file
@@ -60,7 +274,7 @@ export function create_nav_file(global :Global) :ResourceRef[] {
     const title  = global.html_element.querySelector('title').textContent;
     const toc_ol = global.html_element.querySelector('nav#toc');
     if (toc_ol === null) {
-        throw "No TOC element???"
+        throw new MissingTOCError(global.document_url);
     }
 
     // It seems that there are some bugs in the TOC generators which result in <ol> elements that are empty.
@@ -72,9 +286,31 @@ export function create_nav_file(global :Global) :ResourceRef[] {
         }
     })
 
+    // Adjust the table of contents, if requested; a copy is used to leave the document's own table of contents unchanged
+    let toc :Element = toc_ol;
+    if (global.toc) {
+        toc = toc_ol.cloneNode(true) as Element;
+        drop_sections(global, toc, global.toc);
+        const top_ol = toc.querySelector('ol');
+        if (top_ol !== null && global.toc.maxDepth) {
+            trim_toc(top_ol, global.toc.maxDepth, global.toc.flatten);
+        }
+        // Removing entries may leave empty lists behind
+        Array.from(toc.querySelectorAll('ol'))
+            .filter((ol_element :Element) :boolean => ol_element.childElementCount === 0)
+            .forEach((ol_element :Element) :void => ol_element.remove());
+    }
+
+    const document = global.dom.window.document;
+    const page_entries = pages(global);
+    const page_list = page_entries.length === 0 ? '' : page_list_nav.replace('%%%PAGES%%%', () :string => nav_list(document, page_entries));
+
     const final_nav = nav
+        .replace('%%%LANG%%%', xhtml.lang_attributes(global.lang, global.dir))
         .replace('%%%Title%%%', title)
-        .replace('%%%TOC%%%', toc_ol.innerHTML.replace(/href="#/g,'href="Overview.xhtml#'));
+        .replace('%%%LANDMARKS%%%', () :string => nav_list(document, landmarks(global, toc_ol)))
+        .replace('%%%PAGELIST%%%', () :string => page_list)
+        .replace('%%%TOC%%%', toc.innerHTML.replace(/href="#([^"]*)"/g, (match :string, fragment :string) :string => `href="${fragment_file(global, fragment)}#${fragment}"`));
 
     retval.push({
         media_type   : constants.media_types.xhtml,
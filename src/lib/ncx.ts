@@ -0,0 +1,98 @@
+/**
+ * ## Legacy NCX table of contents
+ *
+ * EPUB 3 reading systems use the navigation file (`nav.xhtml`); older, EPUB 2 reading systems rely on an [NCX file](http://www.daisy.org/z3986/2005/Z3986-2005.html#NCX) instead.
+ * If requested (see [`Options.ncx`](../interfaces/_index_.options.html#ncx)), a `toc.ncx` file is added to the EPUB file, and is referred to from the `toc` attribute
+ * of the spine.
+ *
+ * The NCX is derived from the table of contents of the navigation file, i.e., from the same structure for a single document (see the [nav module](./_lib_nav_.html))
+ * and for a collection (see the [collection nav module](./_clib_nav_.html)). The `playOrder` values follow the order of the entries; entries referring to the same target share
+ * the same value (as required by the NCX specification).
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as jsdom    from 'jsdom';
+import { convert }   from 'xmlbuilder2';
+
+/**
+ * Encoding of an NCX `navPoint` element for `xmlbuilder2` (see the [opf module](./_lib_opf_.html) for the conventions).
+ */
+interface NavPoint {
+    "@id"        :string,
+    "@playOrder" :number,
+    "navLabel"   :{ "text" :string },
+    "content"    :{ "@src" :string },
+    "navPoint"?  :NavPoint[]
+}
+
+/**
+ * Create the content of the NCX file.
+ *
+ * @param identifier - the identifier of the publication; it must be identical to the `dc:identifier` entry of the package file
+ * @param title - the title of the publication
+ * @param nav - the text of the navigation file; the entries are taken from its `nav#toc` element
+ * @returns - the NCX file in textual format
+ */
+export function create_ncx(identifier :string, title :string, nav :string) :string {
+    const document = (new jsdom.JSDOM(nav)).window.document;
+    const play_orders :{[src :string] :number} = {};
+    let next_order :number = 1;
+    let n_points :number = 0;
+    let max_depth :number = 0;
+
+    // Convert the list items of an `<ol>` element into navPoints; a list item without a link contributes its sub-entries only
+    const nav_points = (ol :Element, depth :number) :NavPoint[] => {
+        if (ol === null) return [];
+        max_depth = Math.max(max_depth, depth);
+        const retval :NavPoint[] = [];
+        Array.from(ol.children)
+            .filter((li :Element) :boolean => li.tagName.toLowerCase() === 'li')
+            .forEach((li :Element) :void => {
+                const a :Element = Array.from(li.children).find((child :Element) :boolean => child.tagName.toLowerCase() === 'a' && child.hasAttribute('href'));
+                const sub_ol :Element = Array.from(li.children).find((child :Element) :boolean => child.tagName.toLowerCase() === 'ol') || null;
+                if (a === undefined) {
+                    retval.push(...nav_points(sub_ol, depth));
+                } else {
+                    const src = a.getAttribute('href');
+                    if (play_orders[src] === undefined) play_orders[src] = next_order++;
+                    const point :NavPoint = {
+                        "@id"        : `navPoint-${++n_points}`,
+                        "@playOrder" : play_orders[src],
+                        "navLabel"   : { "text" : a.textContent.replace(/\s+/g, ' ').trim() },
+                        "content"    : { "@src" : src },
+                    };
+                    const sub_points = nav_points(sub_ol, depth + 1);
+                    if (sub_points.length > 0) point.navPoint = sub_points;
+                    retval.push(point);
+                }
+            });
+        return retval;
+    }
+
+    const toc :Element = document.querySelector('nav#toc');
+    const points :NavPoint[] = nav_points(toc === null ? null : toc.querySelector('ol'), 1);
+
+    const ncx = {
+        ncx : {
+            "@xmlns"   : "http://www.daisy.org/z3986/2005/ncx/",
+            "@version" : "2005-1",
+            "head"     : {
+                "meta" : [
+                    { "@name" : "dtb:uid",            "@content" : identifier },
+                    { "@name" : "dtb:depth",          "@content" : `${Math.max(max_depth, 1)}` },
+                    { "@name" : "dtb:totalPageCount", "@content" : "0" },
+                    { "@name" : "dtb:maxPageNumber",  "@content" : "0" },
+                ]
+            },
+            "docTitle" : { "text" : title.replace(/\s+/g, ' ').trim() },
+            "navMap"   : { "navPoint" : points }
+        }
+    };
+    return convert({encoding: "utf-8"}, ncx, {prettyPrint: true}) as string;
+}
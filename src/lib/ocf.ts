@@ -40,32 +40,38 @@ const container_xml :string = `<?xml version="1.0"?>
  *
  * Both of these files are stored uncompressed.
  *
+ * In reproducible mode the generated content depends on the content files only: all files are stored in alphabetical order (after the two fixed files above),
+ * with a fixed modification date (see [[reproducible_date]]), and without separate directory entries.
+ *
  */
 export class OCF {
     private _book    :JSZip;
     name    :string;
     private content :Buffer|Blob = null;
+    private reproducible :boolean;
 
     /**
      *
      * @param name the file name of the final package
+     * @param reproducible whether the generated content should be reproducible, i.e., independent of the time and the order of the additions
      */
-    constructor(name :string) {
+    constructor(name :string, reproducible :boolean = false) {
         this._book = new JSZip();
         this.name = name;
+        this.reproducible = reproducible;
 
         this._book.file('mimetype', constants.media_types.epub, {compression: 'STORE'});
         this._book.file('META-INF/container.xml', container_xml, {compression: 'STORE'})
     }
 
     /**
-     * Store a compressed content in the OCF file. The input can be a simple text or a Stream
+     * Store a compressed content in the OCF file. The input can be a simple text, a binary content, or a Stream
      * (the relevant `archiver` function takes care of disambiguation).
      *
      * @param content - Content to be stored
      * @param path_name - Path name of the file for the content
      */
-    append(content :string|stream.Readable, path_name: string): void {
+    append(content :string|Buffer|Blob|stream.Readable, path_name: string): void {
         this._book.file(path_name, content, {compression: 'DEFLATE'});
     }
 
@@ -78,11 +84,14 @@ export class OCF {
      * Return the final content of the book all packed up.
      * If not yet done, the content is generated using the relevant jszip function, packaging all content that has been added.
      *
+     * The whole zip file is kept in memory; for large books, in node.js, [[pipe]] should be preferred when the content is to be written into a file or an HTTP response.
+     *
      * @async
      */
     async get_content() :Promise<Buffer|Blob> {
         if (this.content === null) {
-            this.content = await this._book.generateAsync({
+            const book :JSZip = this.reproducible ? await this.sorted_book() : this._book;
+            this.content = await book.generateAsync({
                 type:  constants.is_browser ? 'blob' : 'nodebuffer',
                 mimeType: constants.media_types.epub,
                 compressionOptions: {
@@ -92,4 +101,71 @@ export class OCF {
        }
         return this.content;
     }
+
+    /**
+     * Return the final content of the book as a (node.js) stream: the zip file is generated, file by file, as the stream is read, i.e., the whole zip file is
+     * never kept in memory. If the content has already been generated via [[get_content]], that content is streamed.
+     *
+     * (This method is not available in a browser.)
+     *
+     * @async
+     */
+    async get_stream() :Promise<NodeJS.ReadableStream> {
+        if (this.content !== null) {
+            const retval = new stream.PassThrough();
+            retval.end(this.content);
+            return retval;
+        } else {
+            const book :JSZip = this.reproducible ? await this.sorted_book() : this._book;
+            return book.generateNodeStream({
+                type:  'nodebuffer',
+                mimeType: constants.media_types.epub,
+                compressionOptions: {
+                    level: 9
+                }
+            });
+        }
+    }
+
+    /**
+     * Write the final content of the book into a (node.js) writable stream, e.g., a file or an HTTP response, using [[get_stream]]. The destination is closed when all the content has been written.
+     *
+     * (This method is not available in a browser.)
+     *
+     * @param destination - the stream to write the content into
+     * @async
+     */
+    async pipe(destination :NodeJS.WritableStream) :Promise<void> {
+        const source :NodeJS.ReadableStream = await this.get_stream();
+        return new Promise((resolve, reject) => {
+            source.on('error', reject);
+            destination.on('error', reject);
+            destination.on('finish', () => resolve());
+            source.pipe(destination);
+        });
+    }
+
+    /**
+     * Create a copy of the book for a reproducible output: the files are added in alphabetical order, with a fixed date, and without directory entries.
+     * (Files may have been added directly via [[book]], i.e., not through [[append]]; this is why the copy is done at the end, instead of controlling each addition.)
+     *
+     * @async
+     */
+    private async sorted_book() :Promise<JSZip> {
+        const fixed_files :string[] = ['mimetype', 'META-INF/container.xml'];
+        const date :Date = constants.reproducible_date;
+        const retval = new JSZip();
+
+        retval.file('mimetype', constants.media_types.epub, {compression: 'STORE', date, createFolders: false});
+        retval.file('META-INF/container.xml', container_xml, {compression: 'STORE', date, createFolders: false});
+
+        const names :string[] = Object.keys(this._book.files)
+            .filter((name :string) :boolean => !this._book.files[name].dir && !fixed_files.includes(name))
+            .sort();
+        for (const name of names) {
+            const content :Uint8Array = await this._book.file(name).async('uint8array');
+            retval.file(name, content, {compression: 'DEFLATE', date, createFolders: false});
+        }
+        return retval;
+    }
 };
@@ -22,6 +22,7 @@
  */
 
 import { convert }   from "xmlbuilder2";
+import * as constants from "./constants";
 
 // These are just the encodings, per xmlbuilder, of the various items as defined for the EPUB 3.2 package. See that document for details.
 /**
@@ -84,6 +85,14 @@ interface Creator {
     "#"      :string
 }
 
+/**
+ * A generic Dublin Core entry (description, subject, source)
+ */
+interface DCEntry {
+    "@id"? :string,
+    "#"    :string
+}
+
 /**
  * The minimal metadata, used by the TR documents
  */
@@ -94,6 +103,10 @@ interface Metadata {
     "meta"             :Meta[],
     "link"?            :Link[],
     "dc:creator"?      :Creator[],
+    "dc:contributor"?  :Creator[],
+    "dc:description"?  :DCEntry[],
+    "dc:subject"?      :DCEntry[],
+    "dc:source"?       :DCEntry[],
     [propName: string] :any;
 }
 
@@ -129,7 +142,9 @@ interface SpineItem {
  * Representation of the "spine" element.
  */
 interface Spine {
-    itemref: SpineItem[]
+    "@toc"?                       :string,
+    "@page-progression-direction"? :string,
+    itemref                       :SpineItem[]
 }
 
 /**
@@ -158,6 +173,33 @@ export interface Package {
     "package" :PackageContent
 }
 
+/**
+ * Generate stable manifest item ids for a list of paths, i.e., ids that depend only on the paths themselves and not on the order of the list. This is used
+ * for reproducible builds, instead of the simple numbering of the resources in the order they have been found.
+ *
+ * The id is the path with all characters not allowed in an XML name replaced by `_`, prefixed by `res_`; if two different paths lead to the same id,
+ * a numerical suffix is added (in the alphabetical order of the paths).
+ *
+ * @param paths - the paths of the resources, relative to the top of the EPUB file
+ * @returns - mapping from paths to ids
+ */
+export function stable_ids(paths :string[]) :{[path :string] :string} {
+    const retval :{[path :string] :string} = {};
+    const used :{[id :string] :boolean} = {};
+    [...paths].sort().forEach((path :string) :void => {
+        if (retval[path] === undefined) {
+            const base = `res_${path.replace(/[^A-Za-z0-9_.-]/g, '_')}`;
+            let id = base;
+            for (let i = 2; used[id]; i++) {
+                id = `${base}_${i}`;
+            }
+            used[id] = true;
+            retval[path] = id;
+        }
+    });
+    return retval;
+}
+
 /**
  * ## The OPF Wrapper
  *
@@ -184,11 +226,20 @@ export class PackageWrapper {
      */
     private id: number = 0;
 
+    /** Whether the manifest items are sorted (by their `href` value) when serialized, to make the output reproducible
+     * @hidden
+     */
+    private reproducible :boolean;
+
     /**
      * @param identifier - Canonical identifier of the publication, used in the `dc:identifier` metadata entry
      * @param title - Title of the publication
+     * @param reproducible - Whether the manifest items should be sorted in the serialization, independently of the order they were added
+     * @param lang - Language of the publication
+     * @param dir - Base direction of the publication (`ltr` or `rtl`); if `rtl`, the page progression direction is also set to right-to-left
      */
-    constructor(identifier :string, title :string) {
+    constructor(identifier :string, title :string, reproducible :boolean = false, lang :string = constants.default_language, dir? :string) {
+        this.reproducible = reproducible;
         this.thePackage = {
             package: {
                 "@xmlns" : "http://www.idpf.org/2007/opf",
@@ -196,7 +247,7 @@ export class PackageWrapper {
                 "@prefix" : "cc: http://creativecommons.org/ns#",
                 "@unique-identifier" : "pub-id",
                 "@version": "3.0",
-                "@xml:lang": "en-us",
+                "@xml:lang": lang,
                 metadata: {
                     "dc:identifier": [{
                         "#" : identifier,
@@ -207,7 +258,7 @@ export class PackageWrapper {
                         "#" : title
                     }],
                     "dc:language": [{
-                        "#": "en-us"
+                        "#": lang
                     }],
                     "meta": [{
                         "@property": "title-type",
@@ -255,6 +306,22 @@ export class PackageWrapper {
                 }
             }
         }
+        if (dir === 'ltr' || dir === 'rtl') {
+            this.thePackage.package["@dir"] = dir;
+            if (dir === 'rtl') this.thePackage.package.spine["@page-progression-direction"] = 'rtl';
+        }
+    }
+
+    /**
+     * Add further languages to the publication (e.g., if the chapters of a collection are in different languages).
+     *
+     * @param languages - the additional languages; those already set are ignored
+     */
+    add_languages(languages :string[]): void {
+        const current :DCLang[] = this.thePackage.package.metadata["dc:language"];
+        languages.forEach((lang :string) :void => {
+            if (!current.some((entry :DCLang) :boolean => entry["#"] === lang)) current.push({ "#" : lang });
+        });
     }
 
     /**
@@ -263,7 +330,7 @@ export class PackageWrapper {
      * @param item - manifest item, as defined in the [EPUB Packages specification](https://www.w3.org/publishing/epub32/epub-packages.html#sec-item-elem)
      */
     add_manifest_item(item :ManifestItem, add_spine_item :boolean = false) :void {
-        if (item['@properties'] === undefined) {
+        if (item['@properties'] === undefined || item['@properties'] === '') {
             delete item['@properties'];
         }
         this.thePackage.package.manifest.item.push(item);
@@ -303,12 +370,22 @@ export class PackageWrapper {
         this.thePackage.package.spine.itemref.push(item);
     }
 
+    /**
+     * Set the reference to the legacy (EPUB 2) NCX table of contents in the spine.
+     *
+     * @param idref - the manifest id of the NCX file
+     */
+    set_toc(idref :string) :void {
+        this.thePackage.package.spine["@toc"] = idref;
+    }
+
     /**
      * Add a list of creators (authors) to the publication.
      *
      * @param creators - list of creators of the publications
+     * @param role - the [MARC relator](https://www.loc.gov/marc/relators/relaterm.html) code of the creators' role (`edt` for editors, `aut` for authors)
      */
-    add_creators(creators: string[]): void {
+    add_creators(creators: string[], role :string = "edt"): void {
         creators.forEach((creator: string) => {
             this.thePackage.package.metadata["dc:creator"].push({
                 "@id"   : `creator_id_${this.id}`,
@@ -318,12 +395,117 @@ export class PackageWrapper {
                 "@refines"  :  `#creator_id_${this.id}`,
                 "@property" : "role",
                 "@scheme"   : "marc:relators",
-                "#"         : "edt"
+                "#"         : role
+            });
+            this.id++;
+        });
+    }
+
+    /**
+     * Add a list of contributors (e.g., former editors) to the publication.
+     *
+     * @param contributors - list of contributors of the publication
+     * @param role - the [MARC relator](https://www.loc.gov/marc/relators/relaterm.html) code of the contributors' role
+     */
+    add_contributors(contributors :string[], role :string): void {
+        if (contributors.length === 0) return;
+        if (this.thePackage.package.metadata["dc:contributor"] === undefined) {
+            this.thePackage.package.metadata["dc:contributor"] = [];
+        }
+        contributors.forEach((contributor :string) => {
+            this.thePackage.package.metadata["dc:contributor"].push({
+                "@id"   : `contributor_id_${this.id}`,
+                "#"     : contributor
+            });
+            this.thePackage.package.metadata["meta"].push({
+                "@refines"  :  `#contributor_id_${this.id}`,
+                "@property" : "role",
+                "@scheme"   : "marc:relators",
+                "#"         : role
             });
             this.id++;
         });
     }
 
+    /**
+     * Add a subtitle to the publication.
+     *
+     * @param subtitle - the subtitle
+     */
+    add_subtitle(subtitle :string): void {
+        this.thePackage.package.metadata["dc:title"].push({
+            "@id" : "subtitle",
+            "#"   : subtitle
+        });
+        this.thePackage.package.metadata["meta"].push({
+            "@property" : "title-type",
+            "@refines"  : "#subtitle",
+            "#"         : "subtitle"
+        });
+    }
+
+    /**
+     * Add a description (typically, the abstract of the document) to the publication.
+     *
+     * @param description - the description text
+     */
+    add_description(description :string): void {
+        this.thePackage.package.metadata["dc:description"] = [{ "#" : description }];
+    }
+
+    /**
+     * Add a list of subjects to the publication.
+     *
+     * @param subjects - the subjects
+     */
+    add_subjects(subjects :string[]): void {
+        if (subjects.length === 0) return;
+        this.thePackage.package.metadata["dc:subject"] = [
+            ...(this.thePackage.package.metadata["dc:subject"] || []),
+            ...subjects.map((subject :string) :DCEntry => ({ "#" : subject }))
+        ];
+    }
+
+    /**
+     * Add a list of sources (i.e., the resources the publication is derived from, like the latest published version or the editors' draft) to the publication.
+     *
+     * @param sources - the URLs of the sources
+     */
+    add_sources(sources :string[]): void {
+        if (sources.length === 0) return;
+        this.thePackage.package.metadata["dc:source"] = [
+            ...(this.thePackage.package.metadata["dc:source"] || []),
+            ...sources.map((source :string) :DCEntry => ({ "#" : source }))
+        ];
+    }
+
+    /**
+     * Declare that the publication belongs to a collection (e.g., the series of documents published by a Working Group).
+     *
+     * @param name - the name of the collection
+     * @param type - the type of the collection (`series` or `set`)
+     * @param identifier - the identifier (e.g., home page URL) of the collection, if any
+     */
+    add_collection(name :string, type :string = "series", identifier? :string): void {
+        const id = `collection_id_${this.id++}`;
+        this.thePackage.package.metadata["meta"].push({
+            "@property" : "belongs-to-collection",
+            "@id"       : id,
+            "#"         : name
+        },{
+            "@property" : "collection-type",
+            "@refines"  : `#${id}`,
+            "#"         : type
+        });
+        if (identifier) {
+            this.thePackage.package.metadata["meta"].push({
+                "@property" : "dcterms:identifier",
+                "@refines"  : `#${id}`,
+                "#"         : identifier
+            });
+        }
+    }
+
     /**
      * Set the date and the modification date of the publication.
      *
@@ -341,11 +523,14 @@ export class PackageWrapper {
     }
 
     /**
-     * Serialize the Package document into (pretty printed) XML.
+     * Serialize the Package document into (pretty printed) XML. In reproducible mode, the manifest items are sorted by their `href` value first.
      *
      * @returns - Pretty printed XML
      */
     serialize(): string {
+        if (this.reproducible) {
+            this.thePackage.package.manifest.item.sort((a :ManifestItem, b :ManifestItem) :number => a["@href"] < b["@href"] ? -1 : (a["@href"] > b["@href"] ? 1 : 0));
+        }
         return convert({encoding: "utf-8"}, this.thePackage, {prettyPrint: true}) as string;
     }
 }
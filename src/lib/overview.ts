@@ -8,6 +8,7 @@
  * element (we use `<div role="main">`). This is because iBook imposes a zero padding on the body element, and that cannot be controlled by the user;
  * the introduction of the top level block element allows for suitable CSS adjustments in the [common css file](https://www.ivan-herman.net/r2epub/base.css).
  *
+ * If requested, the document is also split into several content documents at this point; see the [split module](./_lib_split_.html).
  *
  * @packageDocumentation
 */
@@ -17,80 +18,78 @@
  *
  */
 
-import * as urlHandler from 'url';
 import { ResourceRef, Global } from './convert';
 import * as xhtml              from './xhtml';
 import * as constants          from './constants';
+import { refers_to_remote_resources } from './media';
+import { is_executable }              from './scripts';
+import { split_document, Part }       from './split';
 
 /**
- * Generate the resource entry for the `Overview.xhtml` item into the package; that includes setting the various manifest item
- * properties (see [manifest item properties](https://www.w3.org/publishing/epub32/epub-packages.html#app-item-properties-vocab)).
+ * Collect the manifest item properties (see [manifest item properties](https://www.w3.org/publishing/epub32/epub-packages.html#app-item-properties-vocab))
+ * of a content document.
  *
  * The following properties are set, if applicable:
  *
  * - [mathml](https://www.w3.org/publishing/epub32/epub-packages.html#sec-mathml): there is an explicit usage of mathml.
  * - [scripted](https://www.w3.org/publishing/epub32/epub-packages.html#sec-scripted): there are active scripts.
  * - [svg](https://www.w3.org/publishing/epub32/epub-packages.html#sec-svg): there is explicit svg usage.
- * - [remote-resources](https://www.w3.org/publishing/epub32/epub-packages.html#sec-remote-resources): there are remote resources, typically video, audio, or images.
+ * - [remote-resources](https://www.w3.org/publishing/epub32/epub-packages.html#sec-remote-resources): there are remote resources, typically video, audio, or images (see [refers_to_remote_resources](./_lib_media_.html#refers_to_remote_resources)).
+ *   (The media references have already been processed according to the [remote resource policy](./_lib_remote_.html) at this point; with the `embed` or `strip` policies, there are usually none left.)
  *
- * The function also modifies the DOM tree by introducing a `<main>` element right as a child of `body`
+ * If the scripts have been removed (see the [script module](./_lib_scripts_.html)), the `scripted` property is set only if the document contains a form.
  *
- * @param global
- * @return - a single element array with the resource definition of the `Overview.xhtml` entry
+ * @param html_element - the top level element of the content document
+ * @returns - the list of properties
  */
-export function  generate_overview_item(global: Global): ResourceRef[] {
-
+function content_properties(html_element :Element) :string[] {
     const properties :string[] = [];
 
-    //------------ Setting the properties for the relevant OPF entry
-
     // 1. Mathml usage
-    if (global.html_element.querySelector('mathml') !== null) {
+    if (html_element.querySelector('mathml') !== null) {
         properties.push('mathml');
     }
 
     {
         // 2a. are there active scripts. Care should be taken that a <script> element may be a data block, that does not count!
-        const scripts = Array.from(global.html_element.querySelectorAll('script'));
-        const is_there_script = scripts.find((element: HTMLScriptElement): boolean => {
-            if (element.hasAttribute('type')) {
-                const type = element.getAttribute('type');
-                return ['application/javascript', 'application/ecmascript', constants.media_types.js, constants.media_types.es].includes(type);
-            } else {
-                return true;
-            }
-        })
+        const scripts = Array.from(html_element.querySelectorAll('script'));
+        const is_there_script = scripts.find(is_executable);
         if (is_there_script) {
             properties.push('scripted');
         } else {
             // 2a. check if there is a form element, that also sets a 'scripted' tag
-            if (global.html_element.querySelector('form') !== null) {
+            if (html_element.querySelector('form') !== null) {
                 properties.push('scripted');
             }
         }
     }
 
     // 3. explicit svg usage
-    if (global.html_element.querySelector('svg') !== null) {
+    if (html_element.querySelector('svg') !== null) {
         properties.push('svg');
     }
 
     // 4. external resources
-    {
-        const sources = Array.from(global.html_element.querySelectorAll('video, audio, img, source'));
-        const is_there_external_resources = sources.find((element: HTMLElement): boolean => {
-            if (element.hasAttribute('src')) {
-                const parsed = urlHandler.parse(element.getAttribute('src'));
-                return parsed.protocol !== null && (parsed.host !== null && parsed.host !== 'www.w3.org');
-            } else {
-                return false;
-            }
-        })
-        if (is_there_external_resources) {
-            properties.push('remote-resources');
-        }
+    if (refers_to_remote_resources(html_element)) {
+        properties.push('remote-resources');
     }
 
+    return properties;
+}
+
+/**
+ * Generate the resource entry for the `Overview.xhtml` item into the package; that includes setting the various manifest item
+ * properties (see [[content_properties]]).
+ *
+ * The function also modifies the DOM tree by introducing a `<main>` element right as a child of `body`
+ *
+ * If the document is split (see the [split module](./_lib_split_.html)), a separate resource entry is generated for each part of the document; the properties
+ * are set for each of them separately. The parts following `Overview.xhtml` are (linear) spine items.
+ *
+ * @param global
+ * @return - the resource definition of the `Overview.xhtml` entry, followed, if the document is split, by the entries of the other parts
+ */
+export function  generate_overview_item(global: Global): ResourceRef[] {
     //------------------ Modify the DOM
     // A new 'main' element must be created
     // All children of the 'body' element must be "re-parented" to the "main"
@@ -106,13 +105,28 @@ export function  generate_overview_item(global: Global): ResourceRef[] {
     }
     body.append(main_element);
 
-
-    return [{
-        media_type   : constants.media_types.xhtml,
-        id           : 'main',
-        relative_url : 'Overview.xhtml',
-        text_content : xhtml.convert(global.dom),
-        properties   : properties.join(' ')
-    }]
+    if (global.split) {
+        return split_document(global, main_element).map((part :Part, index :number) :ResourceRef => {
+            const retval :ResourceRef = {
+                media_type   : constants.media_types.xhtml,
+                relative_url : part.file_name,
+                text_content : xhtml.convert(part.html.outerHTML),
+                properties   : content_properties(part.html).join(' ')
+            };
+            if (index === 0) {
+                retval.id = 'main';
+            } else {
+                retval.in_spine = true;
+            }
+            return retval;
+        });
+    } else {
+        return [{
+            media_type   : constants.media_types.xhtml,
+            id           : 'main',
+            relative_url : 'Overview.xhtml',
+            text_content : xhtml.convert(global.dom),
+            properties   : content_properties(global.html_element).join(' ')
+        }]
+    }
 }
-
@@ -0,0 +1,112 @@
+/**
+ * ## Progress reporting
+ *
+ * The conversion reports its progress through a [[ProgressListener]] callback (see [`Options.progress`](../interfaces/_index_.options.html#progress)): the listener is called at the start
+ * and at the end of each conversion [[Phase]], with the number of resources and bytes involved (when relevant). For collections, the events
+ * of the individual chapters are marked with the index of the chapter.
+ *
+ * Errors raised by the listener are ignored; reporting must never interfere with the conversion itself.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as constants from './constants';
+
+/**
+ * The phases of a conversion, in the order they are run:
+ *
+ * * `fetch_document`: fetch (and, possibly, process via ReSpec) the document itself or, for collections, the configuration file;
+ * * `collect_resources`: collect and fetch the resources (images, scripts, etc.) referenced from the document;
+ * * `css`: set up the W3C style sheets and their auxiliary files;
+ * * `cover`: create the cover page;
+ * * `nav`: create the navigation file;
+ * * `package`: create the package (OPF) file;
+ * * `images`: fetch and optimize the PNG and JPEG images (only if the image optimization is requested, see [`Options.images`](../interfaces/_index_.options.html#images));
+ * * `zip`: fetch the remaining resources and store all of them in the OCF (zip) container.
+ */
+export type Phase = 'fetch_document' | 'collect_resources' | 'css' | 'cover' | 'nav' | 'package' | 'images' | 'zip';
+
+/**
+ * The list of all phases, in order.
+ */
+export const phases :Phase[] = ['fetch_document', 'collect_resources', 'css', 'cover', 'nav', 'package', 'images', 'zip'];
+
+/**
+ * Event reported to a [[ProgressListener]].
+ */
+export interface ProgressEvent {
+    /** The conversion phase */
+    phase      :Phase,
+
+    /** Whether the phase starts or ends */
+    status     :'start' | 'end',
+
+    /** The URL of the document (or of the collection configuration file) */
+    url?       :string,
+
+    /** The index of the chapter in a collection (starting at 0); missing for single documents and for the phases of the collection as a whole */
+    chapter?   :number,
+
+    /** Number of resources handled in the phase (set at the end of the phase, if relevant) */
+    resources? :number,
+
+    /** Number of bytes handled in the phase (set at the end of the phase, if relevant) */
+    bytes?     :number,
+
+    /** Number of bytes saved in the phase (set at the end of the `images` phase) */
+    saved?     :number
+}
+
+/**
+ * Callback receiving the progress events.
+ */
+export type ProgressListener = (event :ProgressEvent) => void;
+
+/**
+ * Report an event to a listener, if set.
+ *
+ * @param listener - the listener; may be `null` or `undefined`
+ * @param event - the event to report
+ */
+export function report(listener :ProgressListener, event :ProgressEvent) :void {
+    if (listener) {
+        try {
+            listener(event);
+        } catch (err) {
+            // Reporting should not break the conversion
+        }
+    }
+}
+
+/**
+ * Create a listener that marks all events with a chapter index before forwarding them; used for the chapters of a collection.
+ *
+ * @param listener - the original listener; may be `null` or `undefined`
+ * @param chapter - the index of the chapter
+ * @returns - the new listener, or `undefined` if there is no original listener
+ */
+export function for_chapter(listener :ProgressListener, chapter :number) :ProgressListener {
+    return listener ? (event :ProgressEvent) :void => listener({ ...event, chapter }) : undefined;
+}
+
+/**
+ * Size of a content in bytes.
+ *
+ * @param content - a text, a Buffer, or a Blob
+ */
+export function byte_length(content :any) :number {
+    if (content === undefined || content === null) {
+        return 0;
+    } else if (typeof content === 'string') {
+        return constants.is_browser ? new TextEncoder().encode(content).length : Buffer.byteLength(content);
+    } else if (constants.is_browser && content instanceof Blob) {
+        return content.size;
+    } else {
+        return content.length || 0;
+    }
+}
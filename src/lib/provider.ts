@@ -0,0 +1,288 @@
+/**
+ * ## Resource providers
+ *
+ * All resources (the document itself, images, CSS files, etc.) are accessed through a [[ResourceProvider]]. The default provider
+ * ([HTTPProvider](../classes/_lib_fetch_.httpprovider.html)) fetches the resources on the Web; the providers defined in this module make it possible to
+ * convert a document without any network access:
+ *
+ * * [[DirectoryProvider]]: resources are read from local directories, by mapping URL prefixes onto directory names;
+ * * [[MemoryProvider]]: resources are stored in memory, keyed by their URL (useful for tests).
+ *
+ * Both providers may be given a “fallback” provider, used for the URL-s they cannot handle.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as fs         from 'fs';
+import * as path       from 'path';
+import * as urlHandler from 'url';
+import * as constants  from './constants';
+import { FetchError }  from './errors';
+
+/**
+ * A resource, as returned by a [[ResourceProvider]].
+ */
+export interface FetchedResource {
+    /** Media type of the resource */
+    media_type :string,
+
+    /** Content of the resource: a text for textual media types (or if text was explicitly requested), a binary content (Buffer or Blob) otherwise */
+    content    :any
+}
+
+/**
+ * Interface that all resource providers must implement.
+ *
+ * A provider may also implement the (optional) [[fetch]] method, retrieving a resource and its media type through one single access; this means that
+ * the same content may be reused without retrieving it again. If that method is not implemented, [[fetch_resource]] and [[fetch_type]] are used instead (see [[fetch_with_type]]).
+ */
+export interface ResourceProvider {
+    /**
+     * Fetch a resource.
+     *
+     * @param resource_url - the (absolute) URL of the resource
+     * @param force_text - whether the resource should be returned as text even if it is not of a textual media type
+     * @returns - resource; either a simple text, or a binary content (Buffer, Stream, or Blob)
+     * @async
+     */
+    fetch_resource(resource_url :string, force_text? :boolean) :Promise<any>;
+
+    /**
+     * Fetch the media type of the resource.
+     *
+     * @param resource_url - the (absolute) URL of the resource
+     * @returns - the media type
+     * @async
+     */
+    fetch_type(resource_url :string) :Promise<string>;
+
+    /**
+     * Fetch a resource with its media type, through one single access.
+     *
+     * @param resource_url - the (absolute) URL of the resource
+     * @param force_text - whether the resource should be returned as text even if it is not of a textual media type
+     * @returns - the resource's content and media type
+     * @async
+     */
+    fetch?(resource_url :string, force_text? :boolean) :Promise<FetchedResource>;
+}
+
+/**
+ * Fetch a resource with its media type via a provider: the provider's [fetch](../interfaces/_lib_provider_.resourceprovider.html#fetch) method is used if implemented,
+ * otherwise the content and the media type are retrieved separately.
+ *
+ * @param provider - the resource provider
+ * @param resource_url - the (absolute) URL of the resource
+ * @param force_text - whether the resource should be returned as text even if it is not of a textual media type
+ * @returns - the resource's content and media type
+ * @async
+ */
+export async function fetch_with_type(provider :ResourceProvider, resource_url :string, force_text :boolean = false) :Promise<FetchedResource> {
+    if (provider.fetch !== undefined) {
+        return provider.fetch(resource_url, force_text);
+    } else {
+        const [content, media_type] = await Promise.all([provider.fetch_resource(resource_url, force_text), provider.fetch_type(resource_url)]);
+        return { media_type, content };
+    }
+}
+
+/**
+ * Establish the media type of a resource based on the extension of its URL or file name (see [`extension_media_types`](../modules/_lib_constants_.html#extension_media_types)).
+ *
+ * @param resource - URL or file name
+ * @returns - the media type, or `undefined` if the extension is unknown
+ */
+export function media_type_from_extension(resource :string) :string {
+    const parsed = urlHandler.parse(resource);
+    const ext = path.extname(parsed.pathname || resource).toLowerCase();
+    return constants.extension_media_types[ext];
+}
+
+
+/**
+ * Resource provider reading the resources from the local file system.
+ *
+ * The provider is initialized with a mapping from URL prefixes to directory names. E.g., the mapping
+ *
+ * ```
+ * {
+ *     "https://www.w3.org/TR/spec/"         : "/home/me/spec/",
+ *     "https://www.ivan-herman.net/r2epub/" : "/home/me/r2epub/docs/epub_assets/"
+ * }
+ * ```
+ *
+ * means that the `https://www.w3.org/TR/spec/images/fig.png` is read from `/home/me/spec/images/fig.png`. A URL ending with a `/` character refers
+ * to the `index.html` file in the relevant directory.
+ *
+ * The media types are established based on file name extensions.
+ */
+export class DirectoryProvider implements ResourceProvider {
+    private mappings :[string, string][];
+    private fallback :ResourceProvider;
+
+    /**
+     *
+     * @param mappings - mapping from URL prefixes to local directory names
+     * @param fallback - provider to be used if none of the prefixes match the URL. If not set, such URL-s raise an error.
+     */
+    constructor(mappings :{[url_prefix :string] :string}, fallback :ResourceProvider = null) {
+        // Longer prefixes are tried first, to cater for nested mappings
+        this.mappings = Object.keys(mappings)
+            .sort((a :string, b :string) :number => b.length - a.length)
+            .map((prefix :string) :[string, string] => [prefix, mappings[prefix]]);
+        this.fallback = fallback;
+    }
+
+    /**
+     * Map the URL onto a local file name.
+     *
+     * @returns - the file name, or `null` if there is no mapping for this URL
+     */
+    private file_name(resource_url :string) :string {
+        const parsed = urlHandler.parse(resource_url);
+        parsed.hash   = null;
+        parsed.search = null;
+        parsed.query  = null;
+        const url = urlHandler.format(parsed);
+
+        const mapping = this.mappings.find((entry :[string, string]) :boolean => url.startsWith(entry[0]));
+        if (mapping === undefined) {
+            return null;
+        } else {
+            const relative = decodeURIComponent(url.slice(mapping[0].length));
+            return path.join(mapping[1], relative === '' || relative.endsWith('/') ? `${relative}index.html` : relative);
+        }
+    }
+
+    async fetch(resource_url :string, force_text :boolean = false) :Promise<FetchedResource> {
+        const fname = this.file_name(resource_url);
+        if (fname === null) {
+            if (this.fallback !== null) {
+                return fetch_with_type(this.fallback, resource_url, force_text);
+            } else {
+                throw new FetchError(`No local directory is set for ${resource_url}`, resource_url);
+            }
+        }
+
+        const media_type = media_type_from_extension(fname) || constants.media_types.text;
+        try {
+            if (force_text || constants.text_content.includes(media_type)) {
+                return { media_type, content : await fs.promises.readFile(fname, 'utf-8') };
+            } else {
+                return { media_type, content : await fs.promises.readFile(fname) };
+            }
+        } catch (err) {
+            throw new FetchError(`Problem accessing ${resource_url} (as ${fname}): ${err}`, resource_url);
+        }
+    }
+
+    async fetch_resource(resource_url :string, force_text :boolean = false) :Promise<any> {
+        return (await this.fetch(resource_url, force_text)).content;
+    }
+
+    async fetch_type(resource_url :string) :Promise<string> {
+        const fname = this.file_name(resource_url);
+        if (fname === null) {
+            if (this.fallback !== null) {
+                return this.fallback.fetch_type(resource_url);
+            } else {
+                throw new FetchError(`No local directory is set for ${resource_url}`, resource_url);
+            }
+        }
+        try {
+            await fs.promises.access(fname, fs.constants.R_OK);
+        } catch (err) {
+            throw new FetchError(`Problem accessing ${resource_url} (as ${fname}): ${err}`, resource_url);
+        }
+        return media_type_from_extension(fname) || constants.media_types.text;
+    }
+}
+
+
+/**
+ * A resource stored in a [[MemoryProvider]].
+ */
+export interface MemoryResource {
+    /** The content of the resource */
+    content     :string|Buffer,
+
+    /** Media type of the resource; if missing, it is established from the URL's extension */
+    media_type? :string
+}
+
+/**
+ * Resource provider serving resources from memory. The resources are keyed by their (absolute) URL;
+ * the fragment part of the URL is ignored.
+ */
+export class MemoryProvider implements ResourceProvider {
+    private resources :Map<string, MemoryResource> = new Map();
+    private fallback  :ResourceProvider;
+
+    /**
+     *
+     * @param resources - initial set of resources, keyed by their URL
+     * @param fallback - provider to be used if a resource is not stored in memory. If not set, such URL-s raise an error.
+     */
+    constructor(resources :{[url :string] :MemoryResource} = {}, fallback :ResourceProvider = null) {
+        Object.keys(resources).forEach((url :string) :void => this.add(url, resources[url].content, resources[url].media_type));
+        this.fallback = fallback;
+    }
+
+    /** @hidden */
+    private static key(resource_url :string) :string {
+        const parsed = urlHandler.parse(resource_url);
+        parsed.hash = null;
+        return urlHandler.format(parsed);
+    }
+
+    /**
+     * Add (or replace) a resource.
+     *
+     * @param resource_url - URL of the resource
+     * @param content - the content of the resource
+     * @param media_type - media type of the resource; if missing, it is established from the URL's extension
+     */
+    add(resource_url :string, content :string|Buffer, media_type? :string) :void {
+        this.resources.set(MemoryProvider.key(resource_url), {
+            content    : content,
+            media_type : media_type || media_type_from_extension(resource_url) || constants.media_types.text
+        });
+    }
+
+    async fetch(resource_url :string, force_text :boolean = false) :Promise<FetchedResource> {
+        const resource = this.resources.get(MemoryProvider.key(resource_url));
+        if (resource === undefined) {
+            if (this.fallback !== null) {
+                return fetch_with_type(this.fallback, resource_url, force_text);
+            } else {
+                throw new FetchError(`Resource ${resource_url} is not available`, resource_url);
+            }
+        } else if (force_text && typeof resource.content !== 'string') {
+            return { media_type : resource.media_type, content : resource.content.toString('utf-8') };
+        } else {
+            return { media_type : resource.media_type, content : resource.content };
+        }
+    }
+
+    async fetch_resource(resource_url :string, force_text :boolean = false) :Promise<any> {
+        return (await this.fetch(resource_url, force_text)).content;
+    }
+
+    async fetch_type(resource_url :string) :Promise<string> {
+        const resource = this.resources.get(MemoryProvider.key(resource_url));
+        if (resource === undefined) {
+            if (this.fallback !== null) {
+                return this.fallback.fetch_type(resource_url);
+            } else {
+                throw new FetchError(`Resource ${resource_url} is not available`, resource_url);
+            }
+        } else {
+            return resource.media_type;
+        }
+    }
+}
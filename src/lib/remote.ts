@@ -0,0 +1,271 @@
+/**
+ * ## Remote resources
+ *
+ * Media elements (images, audio, video, text tracks, images in inline SVG) may refer to resources via absolute URLs. By default, these references are kept, i.e., the
+ * resource is accessed over the network when the book is read (and the `remote-resources` property is set on the manifest item of the document, see the [“overview” module](./_lib_overview_.html)).
+ * The [[RemotePolicy]] option controls the alternatives, see [[handle_remote_resources]] for the details.
+ *
+ * Only the media references in the document are considered; links (e.g., `<a>` elements) and absolute URLs in CSS are left untouched.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as urlHandler                     from 'url';
+import * as path                           from 'path';
+import { ResourceRef, Global }             from './convert';
+import { fetch_resource_with_type }        from './fetch';
+import { FetchedResource }                 from './provider';
+import { media_elements, srcset_urls }     from './media';
+
+/**
+ * Handling of the media resources referred to via absolute URLs:
+ *
+ * * `keep`: the references are kept, the resources remain remote (this is the default);
+ * * `embed`: the resources are downloaded and stored in the EPUB file, and the references are changed to the local copies;
+ * * `strip`: the references are removed; images are replaced by their alternate text, audio and video by a link to the original resource.
+ */
+export type RemotePolicy = 'keep' | 'embed' | 'strip';
+
+/**
+ * The list of all policies.
+ */
+export const remote_policies :RemotePolicy[] = ['keep', 'embed', 'strip'];
+
+/**
+ * Directory, in the EPUB file, for the embedded resources. The path within this directory is the host name followed by the path of the resource's URL, see [[local_path]].
+ */
+export const embedded_directory :string = 'remote_resources';
+
+/**
+ * File name used for the resources whose URL refers to a directory (i.e., the path of the URL is empty or ends with a `/`).
+ */
+export const directory_file_name :string = 'index';
+
+/**
+ * The attributes of media elements that may contain a URL; `srcset` is handled separately.
+ *
+ * @hidden
+ */
+const url_attributes :string[] = ['src', 'poster', 'href', 'xlink:href'];
+
+/**
+ * Whether a reference is to a remote resource, i.e., whether it is an absolute HTTP(S) URL.
+ *
+ * @param ref - the URL
+ */
+function is_remote(ref :string) :boolean {
+    const parsed = urlHandler.parse(ref);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+}
+
+/**
+ * Local path, in the EPUB file, of an embedded resource: the host name followed by the (decoded and normalized) path of the URL, within the [[embedded_directory]].
+ * A URL referring to a directory gets the [[directory_file_name]] as a file name. Each segment of the path is percent-encoded, i.e., the result can be used as a relative URL.
+ *
+ * @param url - the URL of the resource
+ * @returns - the local path, or `null` if the URL cannot be mapped on a path within the directory of its host (e.g., because it contains encoded `..` segments)
+ */
+export function local_path(url :string) :string {
+    const parsed = urlHandler.parse(url);
+    let decoded :string;
+    try {
+        decoded = decodeURIComponent(parsed.pathname || '/');
+    } catch (err) {
+        // Invalid percent-encoding
+        return null;
+    }
+    const normalized :string = path.posix.normalize(`${parsed.hostname}/${decoded}`);
+    if (!normalized.startsWith(`${parsed.hostname}/`)) {
+        return null;
+    }
+    const segments :string[] = normalized.split('/');
+    if (segments[segments.length - 1] === '') {
+        segments[segments.length - 1] = directory_file_name;
+    }
+    return [embedded_directory, ...segments.map(encodeURIComponent)].join('/');
+}
+
+/**
+ * Embed the remote media resources: each resource is fetched and the references are replaced by the local paths. If a resource cannot be fetched, or it has no
+ * acceptable local path, the reference is kept.
+ *
+ * @param global - the global data of the conversion
+ * @param elements - the media elements of the document
+ * @returns - the list of new resources
+ * @async
+ */
+async function embed(global :Global, elements :Element[]) :Promise<ResourceRef[]> {
+    // Collect the remote URLs
+    const urls :string[] = [];
+    elements.forEach((element :Element) :void => {
+        url_attributes.forEach((attr :string) :void => {
+            if (element.hasAttribute(attr)) urls.push(element.getAttribute(attr));
+        });
+        if (element.hasAttribute('srcset')) urls.push(...srcset_urls(element.getAttribute('srcset')));
+    });
+    const remote_urls :string[] = Array.from(new Set(urls.filter(is_remote))).filter((url :string) :boolean => {
+        if (local_path(url) === null) {
+            if (global.trace) console.log(`the remote resource ${url} cannot be embedded: no local path`);
+            return false;
+        } else {
+            return true;
+        }
+    });
+
+    // Fetch the resources; the failed ones are simply ignored
+    if (global.trace) console.log(`fetching the remote media resources`);
+    const fetched :FetchedResource[] = await Promise.all(remote_urls.map((url :string) :Promise<FetchedResource> => {
+        return fetch_resource_with_type(url, false, global.provider).catch((err :any) :FetchedResource => {
+            if (global.trace) console.log(`the remote resource ${url} cannot be embedded: ${err}`);
+            return null;
+        });
+    }));
+
+    // Local path of each successfully fetched resource (i.e., the file name in the zip archive)
+    const retval :ResourceRef[] = [];
+    const local :{[url :string] :string} = {};
+    const used :{[path :string] :boolean} = {};
+    remote_urls.forEach((url :string, index :number) :void => {
+        if (fetched[index] !== null) {
+            const the_path :string = local_path(url);
+            // Different query strings (or encodings) may lead to the same path; the first one wins
+            if (!used[the_path]) {
+                used[the_path] = true;
+                local[url] = the_path;
+                retval.push({
+                    relative_url : the_path,
+                    media_type   : fetched[index].media_type,
+                    absolute_url : url,
+                    content      : fetched[index].content
+                });
+            }
+        }
+    });
+
+    // Change the references to the local copies; the document is at the top of the EPUB file
+    elements.forEach((element :Element) :void => {
+        url_attributes.forEach((attr :string) :void => {
+            if (element.hasAttribute(attr) && local[element.getAttribute(attr)]) {
+                element.setAttribute(attr, local[element.getAttribute(attr)]);
+            }
+        });
+        if (element.hasAttribute('srcset')) {
+            const srcset :string = srcset_urls(element.getAttribute('srcset')).reduce((value :string, url :string) :string => {
+                return local[url] ? value.split(url).join(local[url]) : value;
+            }, element.getAttribute('srcset'));
+            element.setAttribute('srcset', srcset);
+        }
+    });
+
+    return retval;
+}
+
+/**
+ * Strip the remote media references: remote `srcset` candidates, posters, text tracks, SVG images, and sources are removed; images are replaced by their alternate text,
+ * audio and video elements by a link to the original resource. If an image has a local alternative in `srcset`, that alternative is used instead.
+ *
+ * @param global - the global data of the conversion
+ * @param elements - the media elements of the document
+ */
+function strip(global :Global, elements :Element[]) :void {
+    const document = global.dom.window.document;
+    const remote_attr = (element :Element, attr :string) :boolean => element.hasAttribute(attr) && is_remote(element.getAttribute(attr));
+
+    // Replace an element by a link to a remote resource (or by its text content if there is no such resource)
+    const replace_by_link = (element :Element, url :string) :void => {
+        const text :string = (element.getAttribute('title') || element.textContent || '').trim();
+        if (url) {
+            const link = document.createElement('a');
+            link.setAttribute('href', url);
+            link.textContent = text || url;
+            element.replaceWith(link);
+        } else {
+            element.replaceWith(text);
+        }
+    };
+
+    // 1. Remove the remote candidates from srcset, and the remote posters
+    elements.forEach((element :Element) :void => {
+        if (element.hasAttribute('srcset')) {
+            const value = element.getAttribute('srcset');
+            const srcset :string = srcset_urls(value).filter(is_remote).reduce((current :string, url :string) :string => {
+                // Remove the candidate with its descriptors
+                const start = current.indexOf(url);
+                const end = current.indexOf(',', start + url.length);
+                return current.slice(0, start) + (end === -1 ? '' : current.slice(end + 1));
+            }, value).replace(/^[\s,]+|[\s,]+$/g, '');
+            if (srcset === '') {
+                element.removeAttribute('srcset');
+            } else {
+                element.setAttribute('srcset', srcset);
+            }
+        }
+        if (remote_attr(element, 'poster')) element.removeAttribute('poster');
+    });
+
+    // 2. Remove the sources, tracks, and SVG images that refer to remote resources. The URL of a removed source is kept, it may be used for a link to replace a video or audio
+    const removed_sources :Map<Element, string> = new Map();
+    elements.forEach((element :Element) :void => {
+        const name = element.tagName.toLowerCase();
+        if (name === 'source' || name === 'track') {
+            if (remote_attr(element, 'src') || (name === 'source' && !element.hasAttribute('src') && !element.hasAttribute('srcset'))) {
+                if (name === 'source' && element.parentElement !== null && element.hasAttribute('src') && !removed_sources.has(element.parentElement)) {
+                    removed_sources.set(element.parentElement, element.getAttribute('src'));
+                }
+                element.remove();
+            }
+        } else if (name === 'image' && (remote_attr(element, 'href') || remote_attr(element, 'xlink:href'))) {
+            element.remove();
+        }
+    });
+
+    // 3. Images and media elements
+    elements.forEach((element :Element) :void => {
+        const name = element.tagName.toLowerCase();
+        if (name === 'img' && remote_attr(element, 'src')) {
+            const picture :Element = element.parentElement !== null && element.parentElement.tagName.toLowerCase() === 'picture' ? element.parentElement : null;
+            const local_source :Element = picture !== null ? picture.querySelector('source[srcset]') : null;
+            if (element.hasAttribute('srcset')) {
+                // There is a local alternative left
+                element.setAttribute('src', srcset_urls(element.getAttribute('srcset'))[0]);
+            } else if (local_source !== null) {
+                // There is a local alternative left in the enclosing picture element
+                element.setAttribute('src', srcset_urls(local_source.getAttribute('srcset'))[0]);
+            } else {
+                (picture || element).replaceWith(element.getAttribute('alt') || '');
+            }
+        } else if (name === 'video' || name === 'audio') {
+            if (remote_attr(element, 'src')) {
+                replace_by_link(element, element.getAttribute('src'));
+            } else if (!element.hasAttribute('src') && element.querySelector('source') === null) {
+                replace_by_link(element, removed_sources.get(element));
+            }
+        }
+    });
+}
+
+/**
+ * Handle the media resources of the document with absolute URLs according to the policy.
+ *
+ * @param global - the global data of the conversion
+ * @param policy - the policy to apply
+ * @returns - the list of new resources to be added to the EPUB file (only for the `embed` policy)
+ * @async
+ */
+export async function handle_remote_resources(global :Global, policy :RemotePolicy) :Promise<ResourceRef[]> {
+    const elements :Element[] = Array.from(global.html_element.querySelectorAll(media_elements));
+    switch (policy) {
+        case 'embed':
+            return embed(global, elements);
+        case 'strip':
+            strip(global, elements);
+            return [];
+        default:
+            return [];
+    }
+}
@@ -0,0 +1,157 @@
+/**
+ * ## ReSpec processors
+ *
+ * If the source of a document is in ReSpec (see [`Options.respec`](../interfaces/_index_.options.html#respec)), it has to be processed by ReSpec before conversion. This is done by a [[RespecProcessor]];
+ * the available processors are:
+ *
+ * * [[SpecGeneratorProcessor]]: uses the W3C [spec generator service](https://labs.w3.org/spec-generator/). This is the default, but it requires the service to be up and running;
+ * * [[LocalProcessor]]: runs ReSpec locally, as a separate process, using the [ReSpec command line tool](https://github.com/w3c/respec) (which must be installed separately);
+ * * [[StubProcessor]]: does not run ReSpec at all, the source is used as is (with the configuration options applied to the ReSpec configuration stored in the document). Mainly useful for tests.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as jsdom         from 'jsdom';
+import * as _             from 'underscore';
+import * as child_process from 'child_process';
+import { ConfigOptions }  from '../index';
+import { ResourceProvider } from './provider';
+import { fetch_html }     from './fetch';
+import * as constants     from './constants';
+import { R2EPUBError }    from './errors';
+
+/**
+ * Interface that all ReSpec processors must implement.
+ */
+export interface RespecProcessor {
+    /**
+     * Process a ReSpec source, and return the DOM of the result.
+     *
+     * @param url - URL of the ReSpec source
+     * @param config - ReSpec configuration options, overwriting the values in the source (`null` values are ignored)
+     * @param provider - resource provider that may be used by the processor to access the source
+     * @returns - DOM of the processed document
+     * @async
+     */
+    process(url :string, config :ConfigOptions, provider :ResourceProvider) :Promise<jsdom.JSDOM>;
+}
+
+/**
+ * Collect the configuration options that are really set (i.e., whose values are not `null`, `''`, or `'null'`).
+ *
+ * @param config - ReSpec configuration options
+ * @returns - array of key/value pairs
+ */
+function set_options(config :ConfigOptions = {}) :[string, string][] {
+    return _.keys(config)
+        .filter((key :string) :boolean => !(config[key] === undefined || config[key] === null || config[key] === '' || config[key] === 'null'))
+        .map((key :string) :[string, string] => [key, config[key]]);
+}
+
+/**
+ * Create a query string for the configuration options; ReSpec uses the query parameters of the document URL to overwrite the configuration options.
+ *
+ * @param config - ReSpec configuration options
+ * @param encode - whether the query string must itself be percent encoded (necessary if the URL is used as a query parameter itself)
+ * @returns - the query string (with the initial `?`), or the empty string if no option is set
+ */
+export function config_query(config :ConfigOptions, encode :boolean = false) :string {
+    const config_options :string[] = set_options(config).map((entry :[string, string]) :string => (encode ? `${entry[0]}%3D${entry[1]}` : `${entry[0]}=${entry[1]}`));
+    if (config_options.length === 0) {
+        return '';
+    } else {
+        return encode ? `%3F${config_options.join('%26')}` : `?${config_options.join('&')}`;
+    }
+}
+
+
+/**
+ * ReSpec processing via the W3C [spec generator service](https://labs.w3.org/spec-generator/).
+ */
+export class SpecGeneratorProcessor implements RespecProcessor {
+    private generator :string;
+
+    /**
+     * @param generator - URL of the spec generator service, with the query parameters ready to accept the URL of the source
+     */
+    constructor(generator :string = constants.spec_generator) {
+        this.generator = generator;
+    }
+
+    async process(url :string, config :ConfigOptions, provider :ResourceProvider) :Promise<jsdom.JSDOM> {
+        return fetch_html(`${this.generator}${url}${config_query(config, true)}`, provider);
+    }
+}
+
+
+/**
+ * ReSpec processing by running a local process. By default, this is the [ReSpec command line tool](https://github.com/w3c/respec) (i.e., `respec --src URL`, the output is taken from the standard output);
+ * the tool itself must be installed separately (e.g., via `npm install -g respec`).
+ *
+ * Note that the source is accessed by the local process directly, i.e., the resource provider is not used.
+ */
+export class LocalProcessor implements RespecProcessor {
+    private command :string;
+    private args    :string[];
+    private timeout :number;
+
+    /**
+     * @param command - the command to run
+     * @param args - the arguments of the command; the `%%%URL%%%` pattern is replaced by the URL of the source (including the configuration options as query parameters)
+     * @param timeout - timeout of the process in milliseconds
+     */
+    constructor(command :string = 'respec', args :string[] = ['--src', '%%%URL%%%'], timeout :number = 120000) {
+        this.command = command;
+        this.args    = args;
+        this.timeout = timeout;
+    }
+
+    async process(url :string, config :ConfigOptions, provider :ResourceProvider) :Promise<jsdom.JSDOM> {
+        const full_url = `${url}${config_query(config)}`;
+        const args = this.args.map((arg :string) :string => arg.split('%%%URL%%%').join(full_url));
+        const output :string = await new Promise((resolve, reject) => {
+            const options = {
+                timeout   : this.timeout,
+                maxBuffer : 64 * 1024 * 1024
+            };
+            child_process.execFile(this.command, args, options, (err, stdout, stderr) => {
+                if (err) {
+                    reject(new R2EPUBError(`ReSpec processing of ${url} failed (${this.command}): ${err.message}${stderr ? `\n${stderr}` : ''}`, 'RESPEC_PROCESSING', url));
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+        return new jsdom.JSDOM(output, { url: url });
+    }
+}
+
+
+/**
+ * "Processing" without ReSpec: the source is taken as is. The configuration options are merged into the ReSpec configuration
+ * stored in the document (i.e., the `script#initialUserConfig` element), if present. This is mainly useful for tests.
+ */
+export class StubProcessor implements RespecProcessor {
+    async process(url :string, config :ConfigOptions, provider :ResourceProvider) :Promise<jsdom.JSDOM> {
+        const dom = await fetch_html(url, provider);
+        const config_element = dom.window.document.querySelector('script#initialUserConfig');
+        if (config_element !== null) {
+            const user_config = JSON.parse(config_element.textContent);
+            set_options(config).forEach((entry :[string, string]) :void => {
+                user_config[entry[0]] = entry[1];
+            });
+            config_element.textContent = JSON.stringify(user_config);
+        }
+        return dom;
+    }
+}
+
+/**
+ * The processor used if none is set explicitly.
+ */
+export const default_processor :RespecProcessor = new SpecGeneratorProcessor();
@@ -0,0 +1,168 @@
+/**
+ * ## Fetch scheduler
+ *
+ * All network accesses of the [HTTPProvider](../classes/_lib_fetch_.httpprovider.html) go through a [[Scheduler]], which:
+ *
+ * * limits the number of parallel requests per host (servers may fail when a burst of requests is sent to them at once, which is exactly what happens when all the resources of a document,
+ * or all the documents of a collection, are fetched via a Promise array);
+ * * retries the requests failing due to network errors, timeouts, or server errors (HTTP status 5xx), with an exponential backoff;
+ * * sets a timeout on each individual request.
+ *
+ * A single scheduler instance ([[default_scheduler]]) is shared by all providers unless set otherwise.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as urlHandler from 'url';
+import { FetchError }   from './errors';
+
+/**
+ * Settings of a [[Scheduler]]. All fields are optional, see [[default_scheduler_options]] for the default values.
+ */
+export interface SchedulerOptions {
+    /** Maximum number of parallel requests per host */
+    concurrency? :number,
+
+    /** Maximum number of retries for a failing request */
+    retries?     :number,
+
+    /** Timeout of a single request in milliseconds; 0 means no timeout */
+    timeout?     :number,
+
+    /** Waiting time before the first retry in milliseconds; the time is doubled for each subsequent retry */
+    backoff?     :number
+}
+
+/**
+ * Default scheduler settings.
+ */
+export const default_scheduler_options :SchedulerOptions = {
+    concurrency : 4,
+    retries     : 3,
+    timeout     : 30000,
+    backoff     : 500
+}
+
+/**
+ * Error signalling a transient problem (network error, timeout, server error); only the tasks failing with such an error are retried by the [[Scheduler]].
+ * If all retries fail, the error is handed over to the caller as a (regular) fetch failure.
+ */
+export class TransientError extends FetchError {
+    constructor(message :string, url? :string) {
+        super(message, url);
+        this.name = 'TransientError';
+    }
+}
+
+/** @hidden */
+const sleep = (ms :number) :Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Scheduler for network tasks, see the [module description](../modules/_lib_scheduler_.html) for the details.
+ */
+export class Scheduler {
+    private _options :SchedulerOptions;
+
+    /** Number of running tasks per host */
+    private active   :Map<string, number> = new Map();
+
+    /** Tasks waiting for a free slot, per host */
+    private waiting  :Map<string, (() => void)[]> = new Map();
+
+    /**
+     * @param options - scheduler settings; missing values are taken from [[default_scheduler_options]]
+     */
+    constructor(options :SchedulerOptions = {}) {
+        this._options = { ...default_scheduler_options };
+        (Object.keys(default_scheduler_options) as (keyof SchedulerOptions)[]).forEach((key :keyof SchedulerOptions) :void => {
+            const value = options[key];
+            if (value !== undefined && value !== null && !Number.isNaN(Number(value))) {
+                this._options[key] = Number(value);
+            }
+        });
+        this._options.concurrency = Math.max(1, this._options.concurrency);
+    }
+
+    /** The (final) scheduler settings */
+    get options() :SchedulerOptions {
+        return this._options;
+    }
+
+    /** @hidden */
+    private async acquire(host :string) :Promise<void> {
+        const running = this.active.get(host) || 0;
+        if (running < this._options.concurrency) {
+            this.active.set(host, running + 1);
+        } else {
+            // Wait for a running task to hand over its slot
+            await new Promise<void>((resolve) => {
+                if (!this.waiting.has(host)) this.waiting.set(host, []);
+                this.waiting.get(host).push(resolve);
+            });
+        }
+    }
+
+    /** @hidden */
+    private release(host :string) :void {
+        const queue = this.waiting.get(host);
+        if (queue && queue.length > 0) {
+            // The slot is handed over directly to the next task in the queue
+            queue.shift()();
+        } else {
+            this.active.set(host, (this.active.get(host) || 1) - 1);
+        }
+    }
+
+    /** @hidden */
+    private with_timeout<T>(url :string, promise :Promise<T>) :Promise<T> {
+        if (this._options.timeout <= 0) {
+            return promise;
+        } else {
+            let timer :any;
+            const timeout = new Promise<T>((resolve, reject) => {
+                timer = setTimeout(() => reject(new TransientError(`Timeout (${this._options.timeout}ms) on ${url}`, url)), this._options.timeout);
+            });
+            return Promise.race([promise, timeout]).then(
+                (value :T) :T => { clearTimeout(timer); return value; },
+                (err :any) :never => { clearTimeout(timer); throw err; }
+            );
+        }
+    }
+
+    /**
+     * Run a network task for a URL: the task is started when there is a free slot for the URL's host, it is subject to the timeout,
+     * and it is retried if it fails with a [[TransientError]].
+     *
+     * @param url - the URL the task accesses; its host is used to limit the number of parallel tasks
+     * @param task - the task itself; its argument is the timeout value that may be forwarded to the underlying fetch function
+     * @returns - the value of the task
+     * @throws - the error of the last attempt
+     * @async
+     */
+    async run<T>(url :string, task :(timeout :number) => Promise<T>) :Promise<T> {
+        const host = urlHandler.parse(url).host || '';
+        for (let attempt = 0; ; attempt++) {
+            await this.acquire(host);
+            try {
+                return await this.with_timeout(url, task(this._options.timeout));
+            } catch (err) {
+                if (!(err instanceof TransientError) || attempt >= this._options.retries) {
+                    throw err;
+                }
+            } finally {
+                this.release(host);
+            }
+            await sleep(this._options.backoff * (2 ** attempt));
+        }
+    }
+}
+
+/**
+ * The scheduler shared by all [HTTPProvider](../classes/_lib_fetch_.httpprovider.html) instances, unless set otherwise.
+ */
+export const default_scheduler :Scheduler = new Scheduler();
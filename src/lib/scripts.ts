@@ -0,0 +1,202 @@
+/**
+ * ## Scripts
+ *
+ * ReSpec documents, as generated by ReSpec or by the spec generator, are static: the scripts left in the document (e.g., the W3C “fixup” script) only add some
+ * convenience features. Many reading systems do not run scripts at all; the [[ScriptPolicy]] option makes it possible to produce EPUB files without scripts (see
+ * [[strip_scripts]] for the details).
+ *
+ * When the scripts are stripped, the content they would generate at run time is materialized first (see [[materialize_content]]): the trusted scripts, i.e., the W3C “fixup” script and
+ * the scripts added by ReSpec to its output, are run on the document, and the result of their work is kept as static content. The other scripts are not run.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as jsdom                      from 'jsdom';
+import * as urlHandler                 from 'url';
+import { Global }                      from './convert';
+import * as constants                  from './constants';
+import { fetch_resource, parse_html }  from './fetch';
+
+/**
+ * Handling of the scripts in the document:
+ *
+ * * `keep`: the scripts are kept (this is the default); the `Overview.xhtml` file is then marked as `scripted` in the package;
+ * * `strip`: the scripts are removed, see [[strip_scripts]].
+ */
+export type ScriptPolicy = 'keep' | 'strip';
+
+/**
+ * The list of all policies.
+ */
+export const script_policies :ScriptPolicy[] = ['keep', 'strip'];
+
+/**
+ * The values of the `type` attribute of executable scripts (see the [HTML specification](https://html.spec.whatwg.org/multipage/scripting.html#attr-script-type)); any other value denotes a data block.
+ *
+ * @hidden
+ */
+const script_types :string[] = ['application/javascript', 'application/ecmascript', constants.media_types.js, constants.media_types.es, 'module'];
+
+/**
+ * Whether a `<script>` element is executable, i.e., whether it is not a data block (like the ReSpec configuration in `<script id="initialUserConfig" type="application/json">`).
+ *
+ * @param element - a `<script>` element
+ */
+export function is_executable(element :Element) :boolean {
+    if (element.hasAttribute('type')) {
+        const type = element.getAttribute('type').trim().toLowerCase();
+        return type === '' || script_types.includes(type);
+    } else {
+        return true;
+    }
+}
+
+/**
+ * Whether an attribute runs a script, i.e., whether it is an event handler attribute (`onclick`, etc.) or an `href` attribute with a `javascript:` URL.
+ *
+ * @param attr - the attribute
+ */
+export function is_script_attribute(attr :Attr) :boolean {
+    return attr.localName.toLowerCase().startsWith('on') || (attr.localName === 'href' && /^\s*javascript:/i.test(attr.value));
+}
+
+/**
+ * Remove the attributes running a script (see [[is_script_attribute]]) from an element.
+ *
+ * @param element - the element
+ */
+export function remove_script_attributes(element :Element) :void {
+    Array.from(element.attributes)
+        .filter(is_script_attribute)
+        .forEach((attr :Attr) :void => { element.removeAttributeNode(attr); });
+}
+
+/**
+ * Maximal time, in milliseconds, given to the trusted scripts to generate their content when the content is materialized (see [[materialize_content]]).
+ */
+export const materialize_timeout :number = 10000;
+
+/**
+ * Whether a `<script>` element is trusted, i.e., whether it may be run to materialize the dynamic content: this is the case for the W3C fixup script and
+ * for the inline scripts added by ReSpec to its output (their `id` value starts with `respec-`).
+ *
+ * @param element - an executable `<script>` element
+ * @param base - the base URL of the document
+ * @hidden
+ */
+function is_trusted(element :Element, base :string) :boolean {
+    if (element.hasAttribute('src')) {
+        return urlHandler.resolve(base, element.getAttribute('src')) === constants.fixup_js;
+    } else {
+        return element.id.startsWith('respec-');
+    }
+}
+
+/**
+ * Resource loader for the materialization of the content: the (trusted) scripts are fetched via the resource provider of the conversion; no other resources are loaded.
+ *
+ * @hidden
+ */
+class TrustedScriptLoader extends jsdom.ResourceLoader {
+    constructor(private global :Global) {
+        super();
+    }
+
+    fetch(url :string, options :jsdom.FetchOptions) :Promise<Buffer> {
+        if (url === constants.fixup_js) {
+            return fetch_resource(url, true, this.global.provider)
+                .then((content :string) :Buffer => Buffer.from(content, 'utf-8'))
+                .catch((err :any) :Buffer => {
+                    // The content generated by this script is simply missing
+                    if (this.global.trace) console.log(`the script ${url} cannot be run: ${err}`);
+                    return Buffer.from('');
+                });
+        } else {
+            return null;
+        }
+    }
+}
+
+/**
+ * Materialize the content generated by the scripts of the document at run time:
+ *
+ * 1. the executable scripts, except for the W3C fixup script and the inline scripts added by ReSpec (their `id` value starts with `respec-`), are removed from a copy of the document;
+ * 2. the copy is loaded into a new DOM with the scripts enabled, i.e., the trusted scripts are run (the external ones are fetched via the resource provider);
+ * 3. when the document is loaded (or after [[materialize_timeout]] milliseconds), the resulting content replaces the original DOM.
+ *
+ * The scripts themselves are not removed from the result: this function must be followed by [[strip_scripts]].
+ *
+ * @param global - the global data of the conversion
+ * @async
+ */
+export async function materialize_content(global :Global) :Promise<void> {
+    const source :jsdom.JSDOM = parse_html(global.dom.serialize(), global.document_url);
+    const trusted :boolean[] = Array.from(source.window.document.querySelectorAll('script'))
+        .filter(is_executable)
+        .map((element :Element) :boolean => {
+            if (is_trusted(element, global.document_url)) {
+                return true;
+            } else {
+                element.remove();
+                return false;
+            }
+        });
+    // There is nothing to run
+    if (!trusted.includes(true)) return;
+
+    if (global.trace) console.log(`materializing the content generated by the scripts`);
+    const virtualConsole = new jsdom.VirtualConsole();
+    if (global.trace) virtualConsole.sendTo(console, { omitJSDOMErrors : true });
+    const dom = new jsdom.JSDOM(source.serialize(), {
+        url               : global.document_url,
+        runScripts        : 'dangerously',
+        resources         : new TrustedScriptLoader(global),
+        pretendToBeVisual : true,
+        virtualConsole,
+    });
+
+    await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, materialize_timeout);
+        dom.window.addEventListener('load', () :void => {
+            clearTimeout(timer);
+            // Give a chance to the scripts to react on the load event
+            setTimeout(resolve, 0);
+        });
+    });
+
+    // The original scripts (including the untrusted ones) are not needed any more, they are removed by strip_scripts; only the generated content is kept
+    const materialized = parse_html(dom.serialize(), global.document_url);
+    dom.window.close();
+    global.dom          = materialized;
+    global.html_element = materialized.window.document.documentElement;
+}
+
+/**
+ * Remove the scripts from the document:
+ *
+ * * executable `<script>` elements are removed; data blocks are kept;
+ * * event handler attributes (`onclick`, etc.) are removed, and so are the `href` attributes with `javascript:` URLs;
+ * * the content of `<noscript>` elements (if any) is moved into the document proper, i.e., it is displayed instead of the dynamic content.
+ *
+ * This function must be invoked before the resources are collected: the script files referred to from the document are then not added to the EPUB file.
+ * The content generated by the scripts should be materialized beforehand, see [[materialize_content]].
+ *
+ * @param global - the global data of the conversion
+ */
+export function strip_scripts(global :Global) :void {
+    Array.from(global.html_element.querySelectorAll('script'))
+        .filter(is_executable)
+        .forEach((element :Element) :void => element.remove());
+
+    Array.from(global.html_element.querySelectorAll('*')).forEach(remove_script_attributes);
+
+    // The DOM is created with scripting disabled, i.e., the content of noscript has been parsed as regular HTML
+    Array.from(global.html_element.querySelectorAll('noscript')).forEach((element :Element) :void => {
+        element.replaceWith(...Array.from(element.childNodes));
+    });
+}
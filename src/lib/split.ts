@@ -0,0 +1,137 @@
+/**
+ * ## Splitting the document
+ *
+ * A specification may be very long, and some reading systems paginate a single, huge content document slowly. If requested (see [`Options.split`](../interfaces/_index_.options.html#split)),
+ * the document is split into several content documents, at the boundaries of the top level sections:
+ *
+ * * the first content document (`Overview.xhtml`) contains everything up to the table of contents (i.e., the title page, the abstract, the status of the document, etc.);
+ * * each top level `<section>` element following the table of contents starts a new content document (`Overview-1.xhtml`, `Overview-2.xhtml`, etc.); elements between two sections
+ *   (if any) remain with the previous section.
+ *
+ * Each content document gets a copy of the `<head>` element of the original document, i.e., the same title, styles, etc. The links to fragments (`<a href="#id">`) whose target has been moved to another
+ * content document are rewritten accordingly; so are the links in the navigation file.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import { Global } from './convert';
+
+/**
+ * A part of the document, to be stored as a separate content document.
+ */
+export interface Part {
+    /** The path of the content document in the EPUB file */
+    file_name :string,
+
+    /** The `<html>` element of the content document (detached from the original DOM) */
+    html      :Element
+}
+
+/**
+ * The path of the content document for a part of the document.
+ *
+ * @param index - the index of the part; 0 is the part with the front matter
+ */
+export function part_name(index :number) :string {
+    return index === 0 ? 'Overview.xhtml' : `Overview-${index}.xhtml`;
+}
+
+/**
+ * Group the child nodes of an element into parts. A new part starts with each `<section>` child following the table of contents.
+ *
+ * @param global - the global data of the conversion
+ * @param container - the element whose children are to be grouped (the `<body>` or the main `<div>` of the document)
+ * @returns - the list of parts, each being a list of nodes
+ */
+function group_nodes(global :Global, container :Element) :Node[][] {
+    const toc :Element = global.html_element.querySelector('nav#toc');
+    const retval :Node[][] = [[]];
+    let after_toc :boolean = toc === null;
+    Array.from(container.childNodes).forEach((node :Node) :void => {
+        if (after_toc && node.nodeType === node.ELEMENT_NODE && (node as Element).tagName.toLowerCase() === 'section') {
+            retval.push([]);
+        }
+        retval[retval.length - 1].push(node);
+        if (node === toc || (node.nodeType === node.ELEMENT_NODE && toc !== null && (node as Element).contains(toc))) {
+            after_toc = true;
+        }
+    });
+    return retval;
+}
+
+/**
+ * Decide on the content document of each element with an `id`, and store the result in [[Global.fragments]]. This must be done before the navigation file is created.
+ *
+ * @param global - the global data of the conversion
+ */
+export function plan_split(global :Global) :void {
+    global.fragments = {};
+    group_nodes(global, global.html_element.querySelector('body')).forEach((nodes :Node[], index :number) :void => {
+        nodes
+            .filter((node :Node) :boolean => node.nodeType === node.ELEMENT_NODE)
+            .forEach((element :Element) :void => {
+                [element, ...Array.from(element.querySelectorAll('[id]'))]
+                    .filter((target :Element) :boolean => target.hasAttribute('id'))
+                    .forEach((target :Element) :void => {
+                        global.fragments[target.getAttribute('id')] = part_name(index);
+                    });
+            });
+    });
+}
+
+/**
+ * The content document of a fragment.
+ *
+ * @param global - the global data of the conversion
+ * @param fragment - the fragment identifier, as it appears in a URL (i.e., possibly percent encoded)
+ * @returns - the path of the content document containing the target of the fragment
+ */
+export function fragment_file(global :Global, fragment :string) :string {
+    let id :string;
+    try {
+        id = decodeURIComponent(fragment);
+    } catch (err) {
+        id = fragment;
+    }
+    return (global.fragments && global.fragments[id]) || part_name(0);
+}
+
+/**
+ * Split the document into parts, following the plan established by [[plan_split]]. The original DOM is not modified.
+ *
+ * @param global - the global data of the conversion
+ * @param container - the element whose children are split (the main `<div>` of the body, see the [“overview” module](./_lib_overview_.html))
+ * @returns - the parts of the document; the first part is the one containing the front matter
+ */
+export function split_document(global :Global, container :Element) :Part[] {
+    const head :Element = global.html_element.querySelector('head');
+    const body :Element = global.html_element.querySelector('body');
+
+    return group_nodes(global, container).map((nodes :Node[], index :number) :Part => {
+        const file_name = part_name(index);
+
+        // Create the skeleton of the content document, and copy the nodes of the part into it
+        const html = global.html_element.cloneNode(false) as Element;
+        const new_body = body.cloneNode(false) as Element;
+        const new_container = container.cloneNode(false) as Element;
+        html.append(head.cloneNode(true), new_body);
+        new_body.append(new_container);
+        nodes.forEach((node :Node) :void => { new_container.append(node.cloneNode(true)); });
+
+        // Links to fragments moved to another content document must be rewritten
+        Array.from(new_container.querySelectorAll('a[href^="#"], area[href^="#"]')).forEach((link :Element) :void => {
+            const fragment = link.getAttribute('href').slice(1);
+            if (fragment !== '') {
+                const target = fragment_file(global, fragment);
+                if (target !== file_name) link.setAttribute('href', `${target}#${fragment}`);
+            }
+        });
+
+        return { file_name, html };
+    });
+}
@@ -0,0 +1,173 @@
+/**
+ * ## SVG sanitization
+ *
+ * SVG content found on the Web (diagrams in specifications, logos, etc.) often includes features that are not acceptable in EPUB 3.2, or that make the content invalid
+ * when it is stored as XML. The functions in this module remove or fix those, both for SVG files ([[sanitize_svg]]) and for SVG embedded in the document
+ * ([[sanitize_inline_svg]]):
+ *
+ * * The DOCTYPE declaration is removed (epubcheck rejects the reference to the SVG DTD); the entities defined in the internal subset are expanded (this is
+ *   usual in SVG files exported by drawing tools), and references to external entities are removed.
+ * * The SVG namespace (and, if used, the XLink namespace) is declared on the root element of SVG files, if missing.
+ * * Scripts, event handler attributes (`onclick`, etc.), and `javascript:` URLs are removed.
+ * * `foreignObject` elements with content that is not XHTML, SVG, or MathML are removed; `requiredExtensions` attributes with a value other than the one defined by EPUB are removed, too.
+ * * In inline SVG, elements and attributes with undeclared namespace prefixes (e.g., `inkscape:label`) are removed; they would make the XHTML content ill-formed.
+ *
+ * If an SVG file cannot be parsed even after the textual fixes, the result of those fixes is used as is.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as jsdom from 'jsdom';
+import { remove_script_attributes } from './scripts';
+
+/** @hidden */
+const svg_ns = 'http://www.w3.org/2000/svg';
+
+/** @hidden */
+const xlink_ns = 'http://www.w3.org/1999/xlink';
+
+/**
+ * Namespaces allowed for the content of a `foreignObject` element.
+ *
+ * @hidden
+ */
+const foreign_content_ns :string[] = ['http://www.w3.org/1999/xhtml', svg_ns, 'http://www.w3.org/1998/Math/MathML'];
+
+/**
+ * The only value of `requiredExtensions` allowed by EPUB.
+ *
+ * @hidden
+ */
+const epub_extension :string = 'http://www.idpf.org/2007/ops';
+
+/**
+ * The predefined XML entities, that need no declaration.
+ *
+ * @hidden
+ */
+const predefined_entities :string[] = ['amp', 'lt', 'gt', 'quot', 'apos'];
+
+/**
+ * Remove the DOCTYPE declaration from an SVG (XML) text. The internal entities declared in the internal subset are expanded in the text; the references to external
+ * (or undeclared) entities are removed.
+ *
+ * @param svg - the SVG content
+ * @returns - the SVG content without DOCTYPE
+ */
+function remove_doctype(svg :string) :string {
+    const doctype = svg.match(/<!DOCTYPE\s[^[>]*(\[([\s\S]*?)\])?\s*>/i);
+    if (doctype === null) return svg;
+
+    // Collect the general entities of the internal subset; parameter entities are irrelevant once the DOCTYPE is removed
+    const entities :{[name :string] :string} = {};
+    const subset :string = doctype[2] || '';
+    const declaration = /<!ENTITY\s+(%\s+)?([^\s%]+)\s+(?:"([^"]*)"|'([^']*)'|(?:SYSTEM|PUBLIC)[^>]*)\s*>/g;
+    let match :RegExpExecArray;
+    while ((match = declaration.exec(subset)) !== null) {
+        if (match[1] === undefined) {
+            const value = match[3] !== undefined ? match[3] : match[4];
+            // external entities are replaced by an empty string
+            entities[match[2]] = value !== undefined ? value : '';
+        }
+    }
+
+    let retval :string = svg.slice(0, doctype.index) + svg.slice(doctype.index + doctype[0].length);
+    // Entity values may refer to other entities; the number of rounds is limited to avoid endless loops on recursive definitions
+    for (let round = 0; round < 5 && /&[^#\s;&]+;/.test(retval); round++) {
+        retval = retval.replace(/&([^#\s;&]+);/g, (reference :string, name :string) :string => {
+            if (predefined_entities.includes(name)) {
+                return reference;
+            } else {
+                return entities[name] !== undefined ? entities[name] : '';
+            }
+        });
+    }
+    return retval;
+}
+
+/**
+ * Add the missing namespace declarations to the root element of an SVG text: the default SVG namespace and, if used in the content, the XLink namespace.
+ *
+ * @param svg - the SVG content
+ * @returns - the SVG content with the namespace declarations
+ */
+function add_namespaces(svg :string) :string {
+    return svg.replace(/<svg(?=[\s>/])([^>]*)>/, (root :string, attributes :string) :string => {
+        let extra = '';
+        if (!/\sxmlns\s*=/.test(attributes)) {
+            extra += ` xmlns="${svg_ns}"`;
+        }
+        if (svg.includes('xlink:') && !/\sxmlns:xlink\s*=/.test(attributes)) {
+            extra += ` xmlns:xlink="${xlink_ns}"`;
+        }
+        return `<svg${extra}${attributes}>`;
+    });
+}
+
+/**
+ * Remove the unsafe parts of an SVG element (scripts, event handlers, `javascript:` URLs, foreign objects with unknown content).
+ *
+ * @param root - the (SVG) element to clean
+ * @param inline - whether the element is embedded in the HTML document; if so, the elements and attributes with undeclared prefixes are also removed
+ */
+function clean(root :Element, inline :boolean) :void {
+    Array.from(root.querySelectorAll('script')).forEach((element :Element) :void => element.remove());
+
+    Array.from(root.querySelectorAll('foreignObject')).forEach((element :Element) :void => {
+        const unknown = Array.from(element.children).some((child :Element) :boolean => !foreign_content_ns.includes(child.namespaceURI));
+        if (unknown) {
+            element.remove();
+        } else if (element.hasAttribute('requiredExtensions') && element.getAttribute('requiredExtensions').trim() !== epub_extension) {
+            element.removeAttribute('requiredExtensions');
+        }
+    });
+
+    [root, ...Array.from(root.querySelectorAll('*'))].forEach((element :Element) :void => {
+        if (inline && element.localName.includes(':')) {
+            // This happens when the HTML parser meets a prefixed element (e.g., 'sodipodi:namedview')
+            element.remove();
+            return;
+        }
+        remove_script_attributes(element);
+        if (inline) {
+            // Attributes with undeclared prefixes (e.g., 'inkscape:label')
+            Array.from(element.attributes)
+                .filter((attr :Attr) :boolean => attr.namespaceURI === null && attr.localName.includes(':'))
+                .forEach((attr :Attr) :void => { element.removeAttributeNode(attr); });
+        }
+    });
+}
+
+/**
+ * Sanitize an SVG file (see the [module description](./_lib_svg_.html) for the details).
+ *
+ * @param svg - the SVG content
+ * @returns - the sanitized SVG content
+ */
+export function sanitize_svg(svg :string) :string {
+    const fixed :string = add_namespaces(remove_doctype(svg));
+    try {
+        const dom = new jsdom.JSDOM(fixed, { contentType : 'image/svg+xml' });
+        const root :Element = dom.window.document.documentElement;
+        if (root === null || root.namespaceURI !== svg_ns) return fixed;
+        clean(root, false);
+        return `<?xml version="1.0" encoding="UTF-8"?>\n${dom.serialize()}`;
+    } catch (err) {
+        // The content is not well-formed; the textual fixes are all what can be done
+        return fixed;
+    }
+}
+
+/**
+ * Sanitize the SVG elements embedded in an HTML document (see the [module description](./_lib_svg_.html) for the details).
+ *
+ * @param html_element - the top level element of the document
+ */
+export function sanitize_inline_svg(html_element :Element) :void {
+    Array.from(html_element.querySelectorAll('svg')).forEach((element :Element) :void => clean(element, true));
+}
@@ -0,0 +1,360 @@
+/**
+ * ## EPUB conformance checks
+ *
+ * Structural checks on an EPUB file, generated by this package or otherwise, to catch the most common errors without running the full
+ * [epubcheck](https://github.com/w3c/epubcheck) suite. The checks are:
+ *
+ * * the `mimetype` file is the first entry of the zip file, it is stored uncompressed and without an extra field, and its content is `application/epub+zip`;
+ * * the `META-INF/container.xml` file exists, and its `rootfile` refers to a package file in the zip file;
+ * * every manifest item is present in the zip file and vice versa;
+ * * the `id` values are unique in the package file and in each content document;
+ * * the spine `idref` values (and the `toc` attribute, if present) refer to manifest items;
+ * * there is exactly one navigation document, it contains a `toc` nav element, and it does not contain empty `<ol>` elements;
+ * * the XHTML and SVG content documents are well-formed;
+ * * the `svg`, `mathml`, `scripted`, and `remote-resources` manifest item properties of the XHTML content documents match their content.
+ *
+ * The main entry points are [[validate]] (for an [OCF](../classes/_lib_ocf_.ocf.html) instance) and [[validate_epub]] (for the binary content of an EPUB file).
+ *
+ * @packageDocumentation
+ */
+
+/**
+ *
+ *
+ */
+
+import * as jsdom      from 'jsdom';
+import * as urlHandler from 'url';
+import * as path       from 'path';
+import * as constants  from './constants';
+import * as ocf        from './ocf';
+import { is_executable } from './scripts';
+import { refers_to_remote_resources } from './media';
+import JSZip = require('jszip');
+
+/**
+ * A single message of the validation.
+ */
+export interface ValidationMessage {
+    /** Errors make the EPUB file invalid; warnings do not */
+    severity :'error' | 'warning',
+
+    /** Short, stable identifier of the check that failed (e.g., `MIMETYPE`, `MANIFEST`, `SPINE`) */
+    check    :string,
+
+    /** Human readable message */
+    message  :string,
+
+    /** Path of the offending file in the zip file, if relevant */
+    path?    :string
+}
+
+/**
+ * Result of the validation.
+ */
+export interface ValidationReport {
+    /** Whether the EPUB file is valid, i.e., there are no errors (there may be warnings) */
+    valid    :boolean,
+
+    /** All the error and warning messages */
+    messages :ValidationMessage[]
+}
+
+/** @hidden */
+const svg_ns = 'http://www.w3.org/2000/svg';
+
+/** @hidden */
+const mathml_ns = 'http://www.w3.org/1998/Math/MathML';
+
+/** @hidden */
+const epub_ns = 'http://www.idpf.org/2007/ops';
+
+/**
+ * Collection of the messages, with convenience methods.
+ *
+ * @hidden
+ */
+class Messages {
+    list :ValidationMessage[] = [];
+
+    error(check :string, message :string, path? :string) :void {
+        this.list.push({ severity : 'error', check, message, path });
+    }
+
+    warning(check :string, message :string, path? :string) :void {
+        this.list.push({ severity : 'warning', check, message, path });
+    }
+}
+
+/**
+ * Parse an XML content; the parser is strict, i.e., it raises an exception if the content is not well-formed.
+ *
+ * @param content - the XML content
+ * @param media_type - the media type used for parsing
+ * @returns - the parsed document
+ */
+function parse_xml(content :string, media_type :string = 'application/xml') :Document {
+    return (new jsdom.JSDOM(content, { contentType : media_type })).window.document;
+}
+
+/**
+ * Check the `mimetype` entry by looking at the raw zip content: it must be the first local file, stored uncompressed and without an extra field.
+ *
+ * @param data - the binary content of the EPUB file
+ * @param messages - collection of messages
+ */
+function check_mimetype(data :Uint8Array, messages :Messages) :void {
+    const uint16 = (offset :number) :number => data[offset] | (data[offset + 1] << 8);
+    const uint32 = (offset :number) :number => (uint16(offset) + uint16(offset + 2) * 0x10000);
+    const text   = (start :number, length :number) :string => String.fromCharCode(...Array.from(data.slice(start, start + length)));
+
+    if (data.length < 30 || text(0, 4) !== 'PK\x03\x04') {
+        messages.error('MIMETYPE', 'The file does not start with a zip local file header');
+        return;
+    }
+    const name_length  = uint16(26);
+    const extra_length = uint16(28);
+    if (text(30, name_length) !== 'mimetype') {
+        messages.error('MIMETYPE', 'The first file in the zip file must be "mimetype"');
+        return;
+    }
+    if (uint16(8) !== 0) {
+        messages.error('MIMETYPE', 'The "mimetype" file must be stored uncompressed', 'mimetype');
+    }
+    if (extra_length !== 0) {
+        messages.error('MIMETYPE', 'The zip header of the "mimetype" file must not contain an extra field', 'mimetype');
+    }
+    const size = uint32(18);
+    if (uint16(8) === 0 && size !== 0 && text(30 + name_length + extra_length, size) !== constants.media_types.epub) {
+        messages.error('MIMETYPE', `The content of the "mimetype" file must be "${constants.media_types.epub}"`, 'mimetype');
+    }
+}
+
+/**
+ * Check that the `id` values are unique in a document.
+ *
+ * @param document - the parsed document
+ * @param file_name - the path of the document in the zip file
+ * @param messages - collection of messages
+ */
+function check_unique_ids(document :Document, file_name :string, messages :Messages) :void {
+    const seen = new Set<string>();
+    Array.from(document.querySelectorAll('[id]')).forEach((element :Element) :void => {
+        const id = element.getAttribute('id');
+        if (seen.has(id)) {
+            messages.error('UNIQUE_ID', `Duplicate id value "${id}"`, file_name);
+        } else {
+            seen.add(id);
+        }
+    });
+}
+
+/**
+ * Check whether an XHTML content document requires the `svg`, `mathml`, `scripted`, or `remote-resources` properties, and compare the result with the declared properties.
+ *
+ * @param document - the parsed content document
+ * @param declared - the properties declared in the manifest
+ * @param file_name - the path of the document in the zip file
+ * @param messages - collection of messages
+ */
+function check_properties(document :Document, declared :string[], file_name :string, messages :Messages) :void {
+    const required :{[property :string] :boolean} = {
+        'svg'              : document.getElementsByTagNameNS(svg_ns, 'svg').length > 0,
+        'mathml'           : document.getElementsByTagNameNS(mathml_ns, 'math').length > 0,
+        'scripted'         : document.querySelector('form') !== null || Array.from(document.querySelectorAll('script')).some(is_executable),
+        'remote-resources' : refers_to_remote_resources(document)
+    };
+
+    Object.keys(required).forEach((property :string) :void => {
+        if (required[property] && !declared.includes(property)) {
+            messages.error('PROPERTIES', `The "${property}" property should be declared in the manifest`, file_name);
+        } else if (!required[property] && declared.includes(property)) {
+            messages.warning('PROPERTIES', `The "${property}" property is declared in the manifest, but it is not needed`, file_name);
+        }
+    });
+}
+
+/**
+ * Check the navigation document: it must contain a `toc` nav element, and no empty `<ol>` elements.
+ *
+ * @param document - the parsed navigation document
+ * @param file_name - the path of the document in the zip file
+ * @param messages - collection of messages
+ */
+function check_nav(document :Document, file_name :string, messages :Messages) :void {
+    const navs = Array.from(document.querySelectorAll('nav'));
+    const toc  = navs.find((nav :Element) :boolean => (nav.getAttributeNS(epub_ns, 'type') || '').split(/\s+/).includes('toc'));
+    if (toc === undefined) {
+        messages.error('NAV', 'The navigation document does not contain a "toc" nav element', file_name);
+    }
+    Array.from(document.querySelectorAll('ol')).forEach((ol :Element) :void => {
+        if (ol.querySelector('li') === null) {
+            messages.error('NAV', 'The navigation document contains an empty <ol> element', file_name);
+        }
+    });
+}
+
+/**
+ * Validate the binary content of an EPUB file.
+ *
+ * @param data - the EPUB file (a Buffer in node.js)
+ * @returns - the validation report
+ * @async
+ */
+export async function validate_epub(data :Uint8Array) :Promise<ValidationReport> {
+    const messages = new Messages();
+    const retval = () :ValidationReport => ({
+        valid    : messages.list.find((message :ValidationMessage) :boolean => message.severity === 'error') === undefined,
+        messages : messages.list
+    });
+
+    // 1. mimetype
+    check_mimetype(data, messages);
+
+    let zip :JSZip;
+    try {
+        zip = await JSZip.loadAsync(data);
+    } catch (err) {
+        messages.error('ZIP', `The file is not a valid zip file: ${err}`);
+        return retval();
+    }
+    const file_names :string[] = Object.keys(zip.files).filter((name :string) :boolean => !zip.files[name].dir);
+    const read = async (name :string) :Promise<string> => zip.file(name).async('text');
+
+    // 2. container file
+    if (zip.file('META-INF/container.xml') === null) {
+        messages.error('CONTAINER', 'The "META-INF/container.xml" file is missing');
+        return retval();
+    }
+    let package_name :string;
+    try {
+        const container = parse_xml(await read('META-INF/container.xml'));
+        const rootfile  = container.querySelector('rootfile');
+        if (rootfile === null || !rootfile.getAttribute('full-path')) {
+            messages.error('CONTAINER', 'The container file does not refer to a package file', 'META-INF/container.xml');
+            return retval();
+        }
+        package_name = rootfile.getAttribute('full-path');
+        if (rootfile.getAttribute('media-type') !== 'application/oebps-package+xml') {
+            messages.error('CONTAINER', 'The media type of the rootfile must be "application/oebps-package+xml"', 'META-INF/container.xml');
+        }
+    } catch (err) {
+        messages.error('WELL_FORMEDNESS', `${err}`, 'META-INF/container.xml');
+        return retval();
+    }
+    if (zip.file(package_name) === null) {
+        messages.error('CONTAINER', `The package file "${package_name}" is missing`, 'META-INF/container.xml');
+        return retval();
+    }
+
+    // 3. package file
+    let opf :Document;
+    try {
+        opf = parse_xml(await read(package_name));
+    } catch (err) {
+        messages.error('WELL_FORMEDNESS', `${err}`, package_name);
+        return retval();
+    }
+    check_unique_ids(opf, package_name, messages);
+
+    // 4. manifest vs. zip file
+    interface Item {
+        id         :string,
+        file_name  :string,
+        media_type :string,
+        properties :string[]
+    }
+    const package_dir = path.posix.dirname(package_name);
+    const items :Item[] = Array.from(opf.querySelectorAll('manifest > item')).map((item :Element) :Item => {
+        const href = urlHandler.parse(item.getAttribute('href') || '').pathname || '';
+        return {
+            id         : item.getAttribute('id'),
+            file_name  : path.posix.normalize(path.posix.join(package_dir, decodeURIComponent(href))),
+            media_type : item.getAttribute('media-type'),
+            properties : (item.getAttribute('properties') || '').split(/\s+/).filter((property :string) :boolean => property !== '')
+        };
+    });
+    items.forEach((item :Item) :void => {
+        if (zip.file(item.file_name) === null) {
+            messages.error('MANIFEST', `The manifest item "${item.id}" refers to a missing file`, item.file_name);
+        }
+    });
+    const listed = new Set<string>([...items.map((item :Item) :string => item.file_name), 'mimetype', package_name]);
+    file_names
+        .filter((name :string) :boolean => !(listed.has(name) || name.startsWith('META-INF/')))
+        .forEach((name :string) :void => messages.error('MANIFEST', 'The file is not listed in the manifest', name));
+
+    // 5. spine
+    const ids = new Set<string>(items.map((item :Item) :string => item.id));
+    const spine = opf.querySelector('spine');
+    if (spine === null || spine.querySelector('itemref') === null) {
+        messages.error('SPINE', 'The spine is missing or empty', package_name);
+    } else {
+        Array.from(spine.querySelectorAll('itemref')).forEach((itemref :Element) :void => {
+            if (!ids.has(itemref.getAttribute('idref'))) {
+                messages.error('SPINE', `The spine item "${itemref.getAttribute('idref')}" does not refer to a manifest item`, package_name);
+            }
+        });
+        if (spine.hasAttribute('toc') && !ids.has(spine.getAttribute('toc'))) {
+            messages.error('SPINE', `The "toc" attribute of the spine ("${spine.getAttribute('toc')}") does not refer to a manifest item`, package_name);
+        }
+    }
+
+    // 6. nav document
+    const navs = items.filter((item :Item) :boolean => item.properties.includes('nav'));
+    if (navs.length !== 1) {
+        messages.error('NAV', `There must be exactly one navigation document in the manifest (found ${navs.length})`, package_name);
+    }
+
+    // 7. content documents: well-formedness, unique ids, nav content, and properties
+    for (const item of items) {
+        if ([constants.media_types.xhtml, constants.media_types.svg].includes(item.media_type) && zip.file(item.file_name) !== null) {
+            let document :Document;
+            try {
+                document = parse_xml(await read(item.file_name), item.media_type);
+            } catch (err) {
+                messages.error('WELL_FORMEDNESS', `${err}`, item.file_name);
+                continue;
+            }
+            check_unique_ids(document, item.file_name, messages);
+            if (item.media_type === constants.media_types.xhtml) {
+                if (item.properties.includes('nav')) {
+                    check_nav(document, item.file_name, messages);
+                }
+                check_properties(document, item.properties, item.file_name, messages);
+            }
+        }
+    }
+
+    return retval();
+}
+
+/**
+ * Validate the content of an OCF instance, as generated by the conversion.
+ *
+ * @param the_ocf - the OCF instance
+ * @returns - the validation report
+ * @async
+ */
+export async function validate(the_ocf :ocf.OCF) :Promise<ValidationReport> {
+    const content = await the_ocf.get_content();
+    const data :Uint8Array = constants.is_browser ? new Uint8Array(await (content as Blob).arrayBuffer()) : content as Buffer;
+    return validate_epub(data);
+}
+
+/**
+ * Human readable version of a validation report.
+ *
+ * @param report - the validation report
+ * @param name - name of the EPUB file, used in the summary line
+ * @returns - one line per message, followed by a summary line
+ */
+export function report_to_string(report :ValidationReport, name :string = 'EPUB') :string {
+    const lines = report.messages.map((message :ValidationMessage) :string => {
+        return `${message.severity.toUpperCase()} [${message.check}]${message.path ? ` ${message.path}:` : ''} ${message.message}`;
+    });
+    const errors   = report.messages.filter((message :ValidationMessage) :boolean => message.severity === 'error').length;
+    const warnings = report.messages.length - errors;
+    lines.push(`${name}: ${report.valid ? 'valid' : 'invalid'} (${errors} error(s), ${warnings} warning(s))`);
+    return lines.join('\n');
+}
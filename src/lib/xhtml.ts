@@ -42,3 +42,14 @@ export function convert(html: jsdom.JSDOM | string): string {
         return convert_text(html.serialize());
     }
 }
+
+/**
+ * The language and base direction attributes for the top level element of a generated XHTML file (e.g., the cover page).
+ *
+ * @param lang - the language tag
+ * @param dir - the base direction (`ltr`, `rtl`, or `auto`); no `dir` attribute is generated if not set
+ * @returns - the attributes in textual form, preceded by a space
+ */
+export function lang_attributes(lang :string, dir? :string) :string {
+    return ` lang="${lang}" xml:lang="${lang}"` + (dir ? ` dir="${dir}"` : '');
+}
@@ -17,15 +17,71 @@
  * -d, --publishDate <date>    publication date
  * -l, --addSectionLinks       add section links with "§".
  * -m, --maxTocLevel <number>  maximum TOC level
+ * -c, --cache <dir>           use (and maintain) an HTTP cache for the fetched resources in <dir>
+ * --refresh                   fetch all resources anew, refreshing the cache (implies -c with a default directory, if not set)
+ * --cache-only                use the cached resources only, without network access (implies -c with a default directory, if not set)
+ * --concurrency <number>      maximum number of parallel requests per host (default: 4)
+ * --retries <number>          maximum number of retries for a failing request (default: 3)
+ * --timeout <ms>              timeout for a single request in milliseconds; 0 means no timeout (default: 30000)
+ * --progress                  display the progress of the conversion (default: false)
+ * --validate                  check the conformance of the generated EPUB file (default: false)
+ * --reproducible              generate a byte-for-byte reproducible EPUB file (default: false)
+ * --remote <policy>           handling of the remote media resources: keep, embed, or strip (default: keep)
+ * --scripts <policy>          handling of the scripts: keep or strip (default: keep)
+ * --split                     split the document into one content file per top level section (default: false)
+ * --ncx                       add a legacy NCX table of contents for EPUB 2 reading systems (default: false)
+ * --optimize-images           remove the metadata from PNG and JPEG images and recompress them (default: false)
+ * --max-image-size <pixels>   scale down PNG and JPEG images larger than <pixels> in width or height (implies --optimize-images)
+ * --toc-depth <number>        maximal depth of the table of contents in the navigation file
+ * --toc-flatten               move the deeper entries of the table of contents up to the maximal depth instead of removing them (default: false)
+ * --drop-appendices           leave the appendices out of the table of contents in the navigation file (default: false)
+ * --drop-informative          leave the non-normative sections out of the table of contents in the navigation file (default: false)
  * -p, --package               [debug option] do not generate an EPUB file, just print the package file content. (default: false)
  * -t, --trace                 [debug option] print built in trace information while processing. (default: false)
  * -h, --help                  display help for command
+ *
+ * Commands:
+ * validate [options] <files...>  check the conformance of existing EPUB files
+ * ```
+ *
+ * The `validate` subcommand checks EPUB files already on disk:
+ *
+ * ```
+ * Usage: r2epub validate [options] <files...>
+ *
+ * check the conformance of existing EPUB files
+ *
+ * Options:
+ * -j, --json  print the results in JSON (default: false)
+ * -h, --help  display help for command
  * ```
  *
  * For the `-d`, `-s`, `-l`, or `-m` flags, see the [ReSpec manual](https://www.w3.org/respec/). If any of those flags is set, `-r` is implied (i.e., it is not necessary to set it explicitly).
  *
+ * For the `-c`, `--refresh`, and `--cache-only` flags, see the [cache module](./_lib_cache_.html). If `--refresh` or `--cache-only` is used without `-c`, the cache directory is `.r2epub-cache` in the current directory.
+ * For the `--concurrency`, `--retries`, and `--timeout` flags, see the [scheduler module](./_lib_scheduler_.html).
+ * The `--progress` flag displays the [conversion phases](./_lib_progress_.html) on the standard error, with the number of resources and bytes involved.
+ * The `--validate` flag runs the [conformance checks](./_lib_validate_.html) on the generated EPUB file, and prints the result on the standard error. The EPUB file is
+ * stored in all cases.
+ * The `--remote` flag controls the handling of media resources (images, audio, video) referred to via absolute URLs, see the [remote resources module](./_lib_remote_.html).
+ * The `--scripts strip` option removes the scripts from the document, see the [script module](./_lib_scripts_.html); the generated EPUB file is then not `scripted`.
+ * The `--split` flag stores each top level section of the document in a separate content file, see the [split module](./_lib_split_.html).
+ * The `--ncx` flag adds a `toc.ncx` file, see the [ncx module](./_lib_ncx_.html).
+ * The `--optimize-images` and `--max-image-size` flags run the [image optimization](./_lib_images_.html) on the PNG and JPEG images before they are stored in the EPUB file;
+ * the number of images and the bytes saved are printed on the standard error at the end.
+ * The `--toc-depth`, `--toc-flatten`, `--drop-appendices`, and `--drop-informative` flags adjust the table of contents of the navigation file (see the [nav module](./_lib_nav_.html));
+ * unlike `-m`, they do not require ReSpec to run again.
+ * The `--reproducible` flag generates an EPUB file that depends on the source only: two runs on the same source yield identical files (see the `reproducible` field of [[Options]]).
+ * The `validate` subcommand runs the same checks on existing EPUB files, and prints the results on the standard output, either in a human readable form or, with `-j`, as a JSON array
+ * of [validation reports](./_lib_validate_.html#validationreport) (each extended with the `file` name). A file that cannot be read is reported as invalid.
+ *
  * This function is a wrapper around [[convert]].
  *
+ * If the conversion fails, the error is printed and the process exits with a non-zero status, depending on the [error code](./_lib_errors_.html#errorcode):
+ * 1 for unexpected errors, 2 for invalid arguments, 3 for fetch failures, 4 for unsupported media types, 5 for a missing ReSpec configuration,
+ * 6 for a missing table of contents, 7 for an invalid collection configuration file, 8 for parse errors, 9 for ReSpec processing failures, and
+ * 10 if the generated EPUB file is not valid (when `--validate` is set) or if any of the files checked by the `validate` subcommand is not valid.
+ *
  * ### Usage examples:
  *
  * Convert the HTML file (as generated by ReSpec) to an EPUB 3.2 file. The generated publication's name is `short-name.epub`, where `short-name` is set in the ReSpec configuration:
@@ -39,6 +95,12 @@
  * node r2epub.js -r https://www.example.org/index.html`
  * ```
  *
+ * Check the conformance of two existing EPUB files, printing the results in JSON:
+ *
+ * ``` sh
+ * node r2epub.js validate -j first.epub second.epub
+ * ```
+ *
  * Convert the HTML _ReSpec source_ to an EPUB 3.2 file, setting its spec status to REC. The source is converted on-the-fly by respec, overwriting the `specStatus` entry in the configuration to `REC`:
  *
  * ``` sh
@@ -92,6 +154,11 @@
 import * as r2epub    from './index';
 import * as _         from 'underscore';
 import * as constants from './lib/constants';
+import * as errors    from './lib/errors';
+import * as progress  from './lib/progress';
+import * as validate  from './lib/validate';
+import * as remote    from './lib/remote';
+import * as scripts   from './lib/scripts';
 import * as fs        from 'fs';
 
 /** @hidden */
@@ -100,15 +167,218 @@ const { program } = require('commander');
 /** @hidden */
 const ERROR :string = 'ERROR';
 
+/**
+ * Display the progress events on the standard error. On a terminal the same line is overwritten with a progress bar (the bar refers to the phases of the
+ * document or, for collections, of the chapter the event belongs to); otherwise one line is printed per completed phase.
+ *
+ * @param event - the progress event
+ */
+function display_progress(event :r2epub.ProgressEvent) :void {
+    if (event.status === 'end') {
+        const bar_width = progress.phases.length;
+        const done      = progress.phases.indexOf(event.phase) + 1;
+        const bar       = `[${'#'.repeat(done)}${'.'.repeat(bar_width - done)}]`;
+        const chapter   = event.chapter !== undefined ? ` (chapter ${event.chapter})` : '';
+        const counts    = [
+            event.resources !== undefined ? `${event.resources} resource(s)` : '',
+            event.bytes !== undefined ? `${(event.bytes / 1024).toFixed(1)} kB` : ''
+        ].filter((item :string) :boolean => item !== '').join(', ');
+        const line = `r2epub: ${bar} ${event.phase}${chapter}${counts !== '' ? `: ${counts}` : ''}`;
+        if (process.stderr.isTTY) {
+            process.stderr.write(`\r\x1b[K${line}`);
+        } else {
+            process.stderr.write(`${line}\n`);
+        }
+    }
+}
+
+
+/**
+ * Convert the URL to EPUB 3.2, based on the options of the command line, and store the result in the local directory. This is the action of the main command.
+ *
+ * @param url - the URL of the document or the collection configuration file
+ * @async
+ */
+async function convert_command(url :string) :Promise<void> {
+    if (!url) {
+        console.error("r2epub error: no URL has been provided; exiting");
+        process.exit(errors.exit_codes.INVALID_ARGUMENT);
+    } else {
+        const options :r2epub.Options = {
+            respec :  program.respec || ((program.specStatus || program.publishDate || program.addSectionLinks || program.maxTocLevel) ? true : false),
+            config : {
+                publishDate     : program.publishDate,
+                specStatus      : program.specStatus === ERROR ? undefined : program.specStatus,
+                addSectionLinks : program.addSectionLinks ? "true" : undefined,
+                maxTocLevel     : program.maxTocLevel === ERROR ? undefined : program.maxTocLevel,
+            }
+        }
+
+        const network :r2epub.SchedulerOptions = {
+            concurrency : program.concurrency === ERROR ? undefined : program.concurrency,
+            retries     : program.retries === ERROR ? undefined : program.retries,
+            timeout     : program.timeout === ERROR ? undefined : program.timeout,
+        }
+
+        if (program.cache || program.refresh || program.cacheOnly) {
+            if (program.refresh && program.cacheOnly) {
+                console.error(`r2epub warning: both --refresh and --cache-only are set; --refresh is ignored`);
+            }
+            const mode :r2epub.CacheMode = program.cacheOnly ? 'only' : (program.refresh ? 'refresh' : 'default');
+            const the_cache = new r2epub.HTTPCache(program.cache || constants.default_cache_directory, mode);
+            options.provider = new r2epub.HTTPProvider(the_cache, new r2epub.Scheduler(network));
+        } else {
+            options.network = network;
+        }
+
+        if (program.progress) {
+            options.progress = display_progress;
+        }
+
+        if (program.reproducible) {
+            options.reproducible = true;
+        }
+
+        if (program.remote && program.remote !== ERROR) {
+            options.remote = program.remote;
+        }
+
+        if (program.scripts && program.scripts !== ERROR) {
+            options.scripts = program.scripts;
+        }
+
+        if (program.split) {
+            options.split = true;
+        }
+
+        if (program.ncx) {
+            options.ncx = true;
+        }
+
+        {
+            const max_depth :number = program.tocDepth && program.tocDepth !== ERROR ? Number(program.tocDepth) : undefined;
+            if (max_depth || program.tocFlatten || program.dropAppendices || program.dropInformative) {
+                options.toc = {
+                    maxDepth        : max_depth,
+                    flatten         : program.tocFlatten,
+                    dropAppendices  : program.dropAppendices,
+                    dropInformative : program.dropInformative
+                };
+            }
+        }
+
+        // Sizes of the optimized images, accumulated over the progress events (there is one set of events per chapter for collections)
+        const image_sizes = { images : 0, final : 0, saved : 0 };
+        const max_image_size :number = program.maxImageSize && program.maxImageSize !== ERROR ? Number(program.maxImageSize) : undefined;
+        if (program.optimizeImages || max_image_size) {
+            options.images = {
+                maxWidth  : max_image_size,
+                maxHeight : max_image_size
+            };
+            options.progress = (event :r2epub.ProgressEvent) :void => {
+                if (event.phase === 'images' && event.status === 'end') {
+                    image_sizes.images += event.resources;
+                    image_sizes.final  += event.bytes;
+                    image_sizes.saved  += event.saved;
+                }
+                if (program.progress) display_progress(event);
+            };
+        }
+
+        // console.log(`URL: ${url}`);
+        // console.log(`Options: ${JSON.stringify(options, null, 4)}`);
+        // console.log(`Tracing: ${program.trace}, Package Only: ${program.package}`);
+        // console.log(`Output: ${program.output}`);
+
+        try {
+            const the_ocf :r2epub.OCF = await r2epub.convert(url, options, program.trace, program.package)
+            if (program.progress && process.stderr.isTTY) process.stderr.write('\n');
+            // In case of some debug settings no ocf is really generated...
+            if (the_ocf.get_content) {
+                const file_name :string = program.output || the_ocf.name;
+                await the_ocf.pipe(fs.createWriteStream(file_name));
+
+                if (options.images) {
+                    const original = image_sizes.final + image_sizes.saved;
+                    console.error(`r2epub: ${image_sizes.images} image(s) optimized, ${(original / 1024).toFixed(1)} kB -> ${(image_sizes.final / 1024).toFixed(1)} kB (${(image_sizes.saved / 1024).toFixed(1)} kB saved)`);
+                }
+
+                if (program.validate) {
+                    const report :r2epub.ValidationReport = await r2epub.validate(the_ocf);
+                    console.error(validate.report_to_string(report, file_name));
+                    if (!report.valid) {
+                        process.exit(errors.exit_codes.VALIDATION);
+                    }
+                }
+            }
+        } catch(e) {
+            if (program.progress && process.stderr.isTTY) process.stderr.write('\n');
+            const err :r2epub.R2EPUBError = errors.to_r2epub_error(e);
+            console.error(`r2epub error: ${err}`);
+            process.exit(err.exit_code);
+        }
+    }
+}
+
+
+/**
+ * Check the conformance of existing EPUB files, and print the results. This is the action of the `validate` subcommand.
+ *
+ * A file that cannot be read (or is not a zip file) is reported as invalid. If any of the files is invalid, the process exits with a non-zero status.
+ *
+ * @param files - the file names of the EPUB files
+ * @param json - whether the results should be printed in JSON (as an array of objects, one per file) instead of a human readable form
+ * @async
+ */
+async function validate_command(files :string[], json :boolean) :Promise<void> {
+    interface Result extends r2epub.ValidationReport {
+        file :string
+    }
+    const results :Result[] = [];
+    for (const file of files) {
+        let report :r2epub.ValidationReport;
+        try {
+            report = await validate.validate_epub(await fs.promises.readFile(file));
+        } catch (e) {
+            report = {
+                valid    : false,
+                messages : [{ severity : 'error', check : 'FILE', message : `The file cannot be read: ${e}` }]
+            };
+        }
+        results.push({ file, ...report });
+    }
+
+    if (json) {
+        console.log(JSON.stringify(results, null, 4));
+    } else {
+        console.log(results.map((result :Result) :string => validate.report_to_string(result, result.file)).join('\n\n'));
+    }
+
+    if (results.some((result :Result) :boolean => !result.valid)) {
+        process.exit(errors.exit_codes.VALIDATION);
+    }
+}
+
 
 /**
  * CLI to the ReSpec to EPUB 3.2 conversion.
  *
- * It is a simple interpretation of the command line, a wrapper around [[create_epub]], and the output of the generated content to local directory.
+ * It is a simple interpretation of the command line, a wrapper around [[convert_command]] (the default) and [[validate_command]] (for the `validate` subcommand).
  *
  * @async
  */
 async function cli() {
+    /* Argument processing function for commander, checking for a non-negative number */
+    const non_negative = (name :string) => (value :string, dummy :any) :string => {
+        const n_value = Number(value);
+        if (_.isNaN(n_value) || n_value < 0) {
+            console.error(`r2epub warning: invalid ${name} value (${value}); ignored`);
+            return ERROR;
+        } else {
+            return value;
+        }
+    };
+
     program
         .version('1.2.2')
         .name('r2epub')
@@ -135,43 +405,67 @@ async function cli() {
                 return value;
             }
         })
+        .option('-c, --cache <dir>', 'use (and maintain) an HTTP cache for the fetched resources in <dir>')
+        .option('--refresh', 'fetch all resources anew, refreshing the cache (implies -c with a default directory, if not set)', false)
+        .option('--cache-only', 'use the cached resources only, without network access (implies -c with a default directory, if not set)', false)
+        .option('--concurrency <number>', 'maximum number of parallel requests per host (default: 4)', non_negative('concurrency'))
+        .option('--retries <number>', 'maximum number of retries for a failing request (default: 3)', non_negative('retries'))
+        .option('--timeout <ms>', 'timeout for a single request in milliseconds; 0 means no timeout (default: 30000)', non_negative('timeout'))
+        .option('--progress', 'display the progress of the conversion', false)
+        .option('--validate', 'check the conformance of the generated EPUB file', false)
+        .option('--reproducible', 'generate a byte-for-byte reproducible EPUB file', false)
+        .option('--remote <policy>', 'handling of the remote media resources: keep, embed, or strip (default: keep)', (value :string, dummy :any) :string => {
+            if ((remote.remote_policies as string[]).includes(value)) {
+                return value;
+            } else {
+                console.error(`r2epub warning: invalid remote resource policy (${value}); ignored`);
+                return ERROR;
+            }
+        })
+        .option('--scripts <policy>', 'handling of the scripts: keep or strip (default: keep)', (value :string, dummy :any) :string => {
+            if ((scripts.script_policies as string[]).includes(value)) {
+                return value;
+            } else {
+                console.error(`r2epub warning: invalid script policy (${value}); ignored`);
+                return ERROR;
+            }
+        })
+        .option('--split', 'split the document into one content file per top level section', false)
+        .option('--ncx', 'add a legacy NCX table of contents for EPUB 2 reading systems', false)
+        .option('--optimize-images', 'remove the metadata from PNG and JPEG images and recompress them', false)
+        .option('--max-image-size <pixels>', 'scale down PNG and JPEG images larger than <pixels> in width or height (implies --optimize-images)', (value :string, dummy :any) :string => {
+            const n_value = Number(value);
+            if (_.isNaN(n_value) || n_value < 1) {
+                console.error(`r2epub warning: invalid maximal image size (${value}); ignored`);
+                return ERROR;
+            } else {
+                return value;
+            }
+        })
+        .option('--toc-depth <number>', 'maximal depth of the table of contents in the navigation file', (value :string, dummy :any) :string => {
+            const n_value = Number(value);
+            if (_.isNaN(n_value) || n_value < 1) {
+                console.error(`r2epub warning: invalid table of contents depth (${value}); ignored`);
+                return ERROR;
+            } else {
+                return value;
+            }
+        })
+        .option('--toc-flatten', 'move the deeper entries of the table of contents up to the maximal depth instead of removing them', false)
+        .option('--drop-appendices', 'leave the appendices out of the table of contents in the navigation file', false)
+        .option('--drop-informative', 'leave the non-normative sections out of the table of contents in the navigation file', false)
         .option('-p, --package', '[debug option] do not generate an EPUB file, just print the package file content.', false)
         .option('-t, --trace', '[debug option] print built in trace information while processing.', false)
-        .parse(process.argv);
-
-
-    if (program.args.length === 0) {
-        console.error("r2epub error: no URL has been provided; exiting");
-        process.exit(-1);
-    } else {
-        const url = program.args[0];
-
-        const options :r2epub.Options = {
-            respec :  program.respec || ((program.specStatus || program.publishDate || program.addSectionLinks || program.maxTocLevel) ? true : false),
-            config : {
-                publishDate     : program.publishDate,
-                specStatus      : program.specStatus === ERROR ? undefined : program.specStatus,
-                addSectionLinks : program.addSectionLinks ? "true" : undefined,
-                maxTocLevel     : program.maxTocLevel === ERROR ? undefined : program.maxTocLevel,
-            }
-        }
+        .arguments('[url]')
+        .action(convert_command);
 
-        // console.log(`URL: ${url}`);
-        // console.log(`Options: ${JSON.stringify(options, null, 4)}`);
-        // console.log(`Tracing: ${program.trace}, Package Only: ${program.package}`);
-        // console.log(`Output: ${program.output}`);
+    program
+        .command('validate <files...>')
+        .description('check the conformance of existing EPUB files')
+        .option('-j, --json', 'print the results in JSON', false)
+        .action((files :string[], command :any) :Promise<void> => validate_command(files, command.json));
 
-        try {
-            const the_ocf :r2epub.OCF = await r2epub.convert(url, options, program.trace, program.package)
-            // In case of some debug settings no ocf is really generated...
-            if (the_ocf.get_content) {
-                const content :Buffer | Blob = await the_ocf.get_content();
-                fs.writeFileSync(program.output || the_ocf.name, content);
-            }
-        } catch(e) {
-            console.error(`r2epub error: ${e}`);
-        }
-    }
+    await program.parseAsync(process.argv);
 }
 
 cli();
@@ -12,8 +12,24 @@
  * specStatus       Specification type
  * addSectionLinks  Add section links with "§"
  * maxTocLevel      Max TOC level
+ * progress         Stream the progress of the conversion (true) or simply return the EPUB content (false, the default)
+ * remote           Handling of the remote media resources: keep (the default), embed, or strip
+ * scripts          Handling of the scripts: keep (the default) or strip
+ * split            Split the document into one content file per top level section (true) or not (false, the default)
+ * ncx              Add a legacy NCX table of contents (true) or not (false, the default)
  *```
  *
+ * The network requests of all conversions run by the server share the same [scheduler](./_lib_scheduler_.html), whose settings may be changed through the
+ * `R2EPUB_CONCURRENCY` (maximum number of parallel requests per host), `R2EPUB_RETRIES` (maximum number of retries for a failing request), and
+ * `R2EPUB_TIMEOUT` (timeout for a single request in milliseconds) environment variables.
+ *
+ *
+ * If the conversion fails, the response has the HTTP status 400 and a JSON body with the `code` (see the [error codes](./_lib_errors_.html#errorcode)), `message`, and,
+ * if available, `url` and `chapter` (the index of the offending chapter in a collection) fields.
+ *
+ * If `progress=true` is set, the response is a stream of JSON objects, one per line (media type `application/x-ndjson`): an object with `"type": "progress"` for each
+ * [progress event](./_lib_progress_.html), and a final object with either `"type": "result"` (with the `file_name` and the base64 encoded `content` of the EPUB file),
+ * or `"type": "error"` (with the same fields as the error responses above).
  *
  * The module is a wrapper around a standard node.js `http.CreateServer`, and a call to [[create_epub]].
  *
@@ -54,21 +70,46 @@ import * as _          from 'underscore';
 import * as r2epub     from './index';
 import * as constants  from './lib/constants';
 import * as ocf        from './lib/ocf';
+import * as errors     from './lib/errors';
+import * as remote     from './lib/remote';
+import * as scripts    from './lib/scripts';
 import * as home       from './lib/home';
 
+/**
+ * The resource provider shared by all conversions; its scheduler settings are taken from the environment.
+ *
+ * @hidden
+ */
+const provider :r2epub.HTTPProvider = new r2epub.HTTPProvider(null, new r2epub.Scheduler({
+    concurrency : process.env.R2EPUB_CONCURRENCY ? Number(process.env.R2EPUB_CONCURRENCY) : undefined,
+    retries     : process.env.R2EPUB_RETRIES ? Number(process.env.R2EPUB_RETRIES) : undefined,
+    timeout     : process.env.R2EPUB_TIMEOUT ? Number(process.env.R2EPUB_TIMEOUT) : undefined,
+}));
+
+
+/**
+ * Media type of the streamed responses.
+ *
+ * @hidden
+ */
+const ndjson :string = 'application/x-ndjson';
 
 /**
  * Return type of [[get_epub]] (to be handled by the server);
  */
 interface Content {
     /**
-     * The real epub content: a Buffer as generated through the [[OCF]] class.
+     * The real epub content, as an [[OCF]] instance; the zip file itself is generated when streamed to the client.
      */
-    content :Buffer;
+    ocf     :ocf.OCF;
     /**
      * Additional HTTP Response headers, to accompany the full response. (File name, dates, etc.).
      */
     headers :object;
+    /**
+     * The file name of the EPUB content.
+     */
+    name    :string;
 }
 
 /**
@@ -83,9 +124,10 @@ interface Query {
  *
  * @async
  * @param query - The query string from the client
+ * @param listener - listener for the progress events, if any
  */
-async function get_epub(query :Query) : Promise<Content> {
-    const respec_args = _.omit(query, 'respec', 'url', 'submit');
+async function get_epub(query :Query, listener :r2epub.ProgressListener = undefined) : Promise<Content> {
+    const respec_args = _.omit(query, 'respec', 'url', 'submit', 'progress', 'remote', 'scripts', 'split', 'ncx');
     _.keys(respec_args).forEach((key :string) => {
         if (respec_args[key] !== undefined && (respec_args[key] === '' || respec_args[key] === 'null')) {
             delete respec_args[key];
@@ -94,29 +136,81 @@ async function get_epub(query :Query) : Promise<Content> {
 
     const url :string = query.url as string;
     const options :r2epub.Options = {
-        respec : (query.respec !== undefined && (query.respec === 'true' || query.respec === true)),
-        config : respec_args,
+        respec   : (query.respec !== undefined && (query.respec === 'true' || query.respec === true)),
+        config   : respec_args,
+        provider : provider,
+        progress : listener,
+        split    : (query.split !== undefined && (query.split === 'true' || query.split === true)),
+        ncx      : (query.ncx !== undefined && (query.ncx === 'true' || query.ncx === true))
+    }
+
+    if (query.remote !== undefined && query.remote !== '') {
+        if ((remote.remote_policies as string[]).includes(query.remote as string)) {
+            options.remote = query.remote as r2epub.RemotePolicy;
+        } else {
+            throw new errors.R2EPUBError(`Invalid remote resource policy: ${query.remote}`, 'INVALID_ARGUMENT');
+        }
+    }
+
+    if (query.scripts !== undefined && query.scripts !== '') {
+        if ((scripts.script_policies as string[]).includes(query.scripts as string)) {
+            options.scripts = query.scripts as r2epub.ScriptPolicy;
+        } else {
+            throw new errors.R2EPUBError(`Invalid script policy: ${query.scripts}`, 'INVALID_ARGUMENT');
+        }
     }
 
     const the_ocf :ocf.OCF     = await r2epub.convert(url, options)
-    const content :Buffer      = await the_ocf.get_content() as Buffer;
 
     const now :string = (new Date()).toString();
 
+    // Note that there is no 'Content-Length' header: the content is streamed (using a chunked transfer encoding)
     return {
-        content : content,
+        ocf     : the_ocf,
         headers : {
             'Content-type'        : constants.media_types.epub,
             'Expires'             : now,
             'Last-Modified'       : now,
-            'Content-Length'      : content.length,
             'Accept-Ranges'       : 'none',
             'Content-Language'    : 'en-US',
             'Content-Disposition' : `attachment; filename=${the_ocf.name}`
-        }
+        },
+        name    : the_ocf.name
     }
  }
 
+/**
+ * Generate the EPUB file via [[get_epub]], streaming the progress events and, finally, the result (or the error) to the client as JSON objects, one per line.
+ *
+ * @async
+ * @param query - The query string from the client
+ * @param response - The server response object
+ */
+async function stream_epub(query :Query, response :http.ServerResponse) :Promise<void> {
+    const send = (data :object) :void => {
+        response.write(`${JSON.stringify(data)}\n`);
+    };
+    response.writeHead(200, _.extend(
+        {
+            'Content-type'     : ndjson,
+            'Cache-Control'    : 'no-cache',
+            'Content-Language' : 'en-US'
+        },
+        constants.CORS_headers
+    ));
+    try {
+        const the_book :Content = await get_epub(query, (event :r2epub.ProgressEvent) :void => send({ type : 'progress', ...event }));
+        const content :Buffer   = await the_book.ocf.get_content() as Buffer;
+        send({
+            type      : 'result',
+            file_name : the_book.name,
+            content   : content.toString('base64')
+        });
+    } catch (e) {
+        send({ type : 'error', ...errors.to_r2epub_error(e).toJSON() });
+    }
+}
+
 
 /**
  * Run a rudimentary Web server calling out to [[convert]] via [[get_epub]] to return an EPUB 3.2 instance when invoked.
@@ -128,16 +222,21 @@ async function serve() {
     const port :string = process.env.PORT || process.env.R2EPUB_PORT || constants.local_port_number;
     console.log(`r2epub server starting on port ${port}`);
     http.createServer(async (request :http.IncomingMessage, response :http.ServerResponse) => {
-        const error = (code :number, e :string) => {
+        const error = (code :number, e :errors.R2EPUBError) => {
+            if (response.headersSent) {
+                // The error occurred while streaming the content; the only thing to do is to break the connection
+                response.destroy();
+                return;
+            }
             const error_headers = {
-                'Content-type'     : constants.media_types.text,
+                'Content-type'     : constants.media_types.json,
                 'Content-Language' : 'en-US'
             };
             response.writeHead(code, _.extend(
                 error_headers,
                 constants.CORS_headers
             ));
-            response.write(e);
+            response.write(JSON.stringify(e, null, 4));
         }
         try {
             if (request.method === 'GET' || request.method === 'HEAD') {
@@ -151,19 +250,21 @@ async function serve() {
                         constants.CORS_headers
                     ));
                     response.write(home.homepage.replace(/%%%SERVER%%%/g, host));
+                } else if (query.progress === 'true') {
+                    await stream_epub(query, response);
                 } else {
                     const the_book :Content = await get_epub(query);
                     response.writeHead(200, _.extend(
                         the_book.headers,
                         constants.CORS_headers
                     ));
-                    response.write(the_book.content);
+                    await the_book.ocf.pipe(response);
                 }
             } else {
-                error(501, `Invalid HTTP request method: ${request.method}`);
+                error(501, new errors.R2EPUBError(`Invalid HTTP request method: ${request.method}`, 'INVALID_ARGUMENT'));
             }
         } catch(e) {
-            error(400, `EPUB Generation error: ${e.toString()}`);
+            error(400, errors.to_r2epub_error(e));
         } finally {
             response.end();
         }
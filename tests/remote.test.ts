@@ -0,0 +1,85 @@
+/**
+ * Embedding of remote media resources: the local paths of the embedded resources must remain within the directory of the remote resources,
+ * and the references must be usable as relative URLs.
+ */
+
+import * as assert     from 'assert';
+import * as fs         from 'fs';
+import * as path       from 'path';
+import * as r2epub     from '../src/index';
+import { local_path }  from '../src/lib/remote';
+import JSZip = require('jszip');
+
+/** URL of the fixture; all resources are served from memory */
+const spec_url = 'https://www.example.org/spec/index.html';
+
+/** Minimal PNG content: only the signature is necessary */
+const png = Buffer.from('89504e470d0a1a0a', 'hex');
+
+/**
+ * Convert the fixture, extended with an image referring to a remote resource, with the `embed` policy.
+ *
+ * @param image_url - the (remote) URL of the image
+ * @returns - the names of the files in the EPUB file and the final value of the image's `src` attribute
+ */
+async function embed_image(image_url :string) :Promise<{files :string[], src :string}> {
+    const spec = fs.readFileSync(path.join(__dirname, 'fixtures', 'spec.html'), 'utf-8').replace('<p>x</p>', `<p><img id="remote" src="${image_url}" alt="remote"></p>`);
+    const provider = new r2epub.MemoryProvider({
+        [spec_url]                                     : { content : spec },
+        'https://www.example.org/spec/local.css'       : { content : 'p { margin: 0; }' },
+        'https://www.example.org/spec/images/fig.png'  : { content : png },
+        [image_url]                                    : { content : png, media_type : 'image/png' },
+    });
+    const the_ocf = await r2epub.convert(spec_url, { provider, remote : 'embed' });
+    const zip = await JSZip.loadAsync(await the_ocf.get_content());
+    const overview = await zip.file('Overview.xhtml').async('text');
+    return {
+        files : Object.keys(zip.files).filter((name :string) :boolean => !zip.files[name].dir),
+        src   : /<img id="remote" src="([^"]*)"/.exec(overview)[1],
+    };
+}
+
+describe('local paths of the embedded remote resources', () => {
+    it('uses the host name and the path of the URL', () => {
+        assert.strictEqual(local_path('https://cdn.example.net/images/a%20b.png?size=2'), 'remote_resources/cdn.example.net/images/a%20b.png');
+    });
+
+    it('rejects encoded parent directory segments escaping the directory of the host', () => {
+        assert.strictEqual(local_path('https://cdn.example.net/%2e%2e/%2e%2e/evil.png'), null);
+        assert.strictEqual(local_path('https://cdn.example.net/images/%2E%2E%2F%2E%2E%2Fevil.png'), null);
+    });
+
+    it('keeps the parent directory segments within the directory of the host', () => {
+        assert.strictEqual(local_path('https://cdn.example.net/images/%2e%2e/logo.png'), 'remote_resources/cdn.example.net/logo.png');
+    });
+
+    it('generates a file name for directory URLs', () => {
+        assert.strictEqual(local_path('https://cdn.example.net/images/'), 'remote_resources/cdn.example.net/images/index');
+        assert.strictEqual(local_path('https://cdn.example.net'), 'remote_resources/cdn.example.net/index');
+    });
+
+    it('escapes the characters that would not survive as a relative URL', () => {
+        assert.strictEqual(local_path('https://cdn.example.net/a%3Fb%23c.png'), 'remote_resources/cdn.example.net/a%3Fb%23c.png');
+        assert.strictEqual(local_path('https://cdn.example.net/a%2Fb.png'), 'remote_resources/cdn.example.net/a/b.png');
+    });
+
+    it('rejects an invalid percent-encoding', () => {
+        assert.strictEqual(local_path('https://cdn.example.net/%E0%A4%A.png'), null);
+    });
+});
+
+describe('embedding of remote resources', function () {
+    this.timeout(60000);
+
+    it('stores the resource under its local path and refers to it', async () => {
+        const result = await embed_image('https://cdn.example.net/a%3Fb.png');
+        assert.strictEqual(result.src, 'remote_resources/cdn.example.net/a%3Fb.png');
+        assert.ok(result.files.includes('remote_resources/cdn.example.net/a%3Fb.png'));
+    });
+
+    it('keeps the remote reference if the path would escape the directory', async () => {
+        const result = await embed_image('https://cdn.example.net/%2e%2e/%2e%2e/evil.png');
+        assert.strictEqual(result.src, 'https://cdn.example.net/%2e%2e/%2e%2e/evil.png');
+        assert.ok(!result.files.some((name :string) :boolean => name.includes('evil')));
+    });
+});
@@ -0,0 +1,64 @@
+/**
+ * Removal of the scripts: the content generated by the trusted scripts (the W3C fixup script and the scripts added by ReSpec) must be kept as static content,
+ * whereas the other scripts are not run.
+ */
+
+import * as assert     from 'assert';
+import * as fs         from 'fs';
+import * as path       from 'path';
+import * as r2epub     from '../src/index';
+import { MemoryResource } from '../src/lib/provider';
+import JSZip = require('jszip');
+
+/** URL of the fixture; all resources are served from memory */
+const spec_url = 'https://www.example.org/spec/index.html';
+
+/** Stand-in for the W3C fixup script, adding a warning to the document */
+const fixup = `document.body.insertAdjacentHTML('afterbegin', '<p id="fixup-warning">This version is outdated.</p>');`;
+
+/** Scripts added to the fixture: one added by ReSpec, one by the authors of the document */
+const scripts = `<script id="respec-dfn-panel">document.body.insertAdjacentHTML('beforeend', '<aside id="respec-panel">Panel</aside>');</script>
+<script>document.body.insertAdjacentHTML('beforeend', '<p id="untrusted">Not to be run</p>');</script>
+</body>`;
+
+/**
+ * Convert the fixture with the scripts stripped, and return the content of the (main) content document.
+ *
+ * @param fixup_content - content of the fixup script; if `undefined`, the script is not available
+ */
+async function stripped_overview(fixup_content :string) :Promise<string> {
+    const spec = fs.readFileSync(path.join(__dirname, 'fixtures', 'spec.html'), 'utf-8').replace('</body>', scripts);
+    const resources :{[url :string] :MemoryResource} = {
+        [spec_url]                                     : { content : spec },
+        'https://www.example.org/spec/local.css'       : { content : 'p { margin: 0; }' },
+        'https://www.example.org/spec/images/fig.png'  : { content : Buffer.from('89504e470d0a1a0a', 'hex') },
+    };
+    if (fixup_content !== undefined) {
+        resources['https://www.w3.org/scripts/TR/2016/fixup.js'] = { content : fixup_content, media_type : 'application/javascript' };
+    }
+    const the_ocf = await r2epub.convert(spec_url, { provider : new r2epub.MemoryProvider(resources), scripts : 'strip' });
+    const zip = await JSZip.loadAsync(await the_ocf.get_content());
+    return zip.file('Overview.xhtml').async('text');
+}
+
+describe('materialization of the content generated by scripts', function () {
+    this.timeout(60000);
+
+    it('keeps the content generated by the trusted scripts, without the scripts themselves', async () => {
+        const overview = await stripped_overview(fixup);
+        assert.ok(overview.includes('id="fixup-warning"'));
+        assert.ok(overview.includes('id="respec-panel"'));
+        assert.ok(!/<script(?![^>]*type="application\/json")/.test(overview));
+    });
+
+    it('does not run the other scripts', async () => {
+        const overview = await stripped_overview(fixup);
+        assert.ok(!overview.includes('id="untrusted"'));
+    });
+
+    it('ignores a trusted script that cannot be fetched', async () => {
+        const overview = await stripped_overview(undefined);
+        assert.ok(!overview.includes('id="fixup-warning"'));
+        assert.ok(overview.includes('id="respec-panel"'));
+    });
+});
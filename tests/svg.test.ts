@@ -0,0 +1,49 @@
+/**
+ * Sanitization of the SVG files referred to from the document, regardless of whether the provider returns their content as text or as binary.
+ */
+
+import * as assert     from 'assert';
+import * as fs         from 'fs';
+import * as path       from 'path';
+import * as r2epub     from '../src/index';
+import JSZip = require('jszip');
+
+/** URL of the fixture; all resources are served from memory */
+const spec_url = 'https://www.example.org/spec/index.html';
+
+/** SVG content with a DOCTYPE and a script, both to be removed */
+const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd">
+<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" onload="alert(1)"><script>alert(2)</script><rect width="5" height="5"/></svg>`;
+
+/**
+ * Convert the fixture, extended with a reference to an SVG image, and return the stored SVG content.
+ *
+ * @param content - the content of the SVG image, as returned by the provider
+ */
+async function stored_svg(content :string|Buffer) :Promise<string> {
+    const spec = fs.readFileSync(path.join(__dirname, 'fixtures', 'spec.html'), 'utf-8').replace('<p>x</p>', '<p><img src="images/diagram.svg" alt="diagram"></p>');
+    const provider = new r2epub.MemoryProvider({
+        [spec_url]                                       : { content : spec },
+        'https://www.example.org/spec/local.css'         : { content : 'p { margin: 0; }' },
+        'https://www.example.org/spec/images/fig.png'    : { content : Buffer.from('89504e470d0a1a0a', 'hex') },
+        'https://www.example.org/spec/images/diagram.svg': { content },
+    });
+    const the_ocf = await r2epub.convert(spec_url, { provider });
+    const zip = await JSZip.loadAsync(await the_ocf.get_content());
+    return zip.file('images/diagram.svg').async('text');
+}
+
+describe('sanitization of SVG files', function () {
+    this.timeout(60000);
+
+    for (const [label, content] of [['text', svg], ['binary', Buffer.from(svg, 'utf-8')]] as [string, string|Buffer][]) {
+        it(`removes the DOCTYPE and the scripts from an SVG file delivered as ${label}`, async () => {
+            const result = await stored_svg(content);
+            assert.ok(!result.includes('<!DOCTYPE'));
+            assert.ok(!result.includes('<script'));
+            assert.ok(!result.includes('onload'));
+            assert.ok(result.includes('<rect'));
+        });
+    }
+});
@@ -0,0 +1,124 @@
+/**
+ * Conversion of a small ReSpec fixture without network access (via a memory provider and the stub ReSpec processor),
+ * and validation of the result with the [validation module](../src/lib/validate.ts). The negative cases modify the generated EPUB file before validation.
+ */
+
+import * as assert     from 'assert';
+import * as fs         from 'fs';
+import * as path       from 'path';
+import * as r2epub     from '../src/index';
+import { validate_epub, ValidationReport, ValidationMessage } from '../src/lib/validate';
+import JSZip = require('jszip');
+
+/** URL of the fixture; all resources are served from memory */
+const spec_url = 'https://www.example.org/spec/index.html';
+
+/** Minimal PNG content: only the signature is necessary */
+const png = Buffer.from('89504e470d0a1a0a', 'hex');
+
+/**
+ * Convert the fixture, with the ReSpec processing done by the stub processor.
+ *
+ * @param modify - function modifying the source of the fixture before the conversion
+ */
+async function convert_fixture(modify :(spec :string) => string = (spec :string) :string => spec) :Promise<r2epub.OCF> {
+    const provider = new r2epub.MemoryProvider({
+        [spec_url]                                     : { content : modify(fs.readFileSync(path.join(__dirname, 'fixtures', 'spec.html'), 'utf-8')) , media_type : 'text/html' },
+        'https://www.example.org/spec/local.css'       : { content : 'p { margin: 0; }' },
+        'https://www.example.org/spec/images/fig.png'  : { content : png },
+    });
+    return r2epub.convert(spec_url, { respec : true, processor : new r2epub.StubProcessor(), provider });
+}
+
+/**
+ * Copy the EPUB file into a new zip file, modifying its content on the way; the `mimetype` file remains the first, uncompressed, entry.
+ *
+ * @param the_ocf - the generated EPUB
+ * @param modify - function modifying the content of the zip file
+ * @returns - the content of the modified EPUB file
+ */
+async function modified_epub(the_ocf :r2epub.OCF, modify :(zip :JSZip) => Promise<void>) :Promise<Buffer> {
+    const original = await JSZip.loadAsync(await the_ocf.get_content());
+    await modify(original);
+    const retval = new JSZip();
+    retval.file('mimetype', 'application/epub+zip', { compression : 'STORE' });
+    for (const name of Object.keys(original.files)) {
+        if (name !== 'mimetype' && !original.files[name].dir) {
+            retval.file(name, await original.file(name).async('nodebuffer'), { compression : 'DEFLATE' });
+        }
+    }
+    return retval.generateAsync({ type : 'nodebuffer' });
+}
+
+/**
+ * Replace a text in a file of the zip file.
+ */
+async function replace_in(zip :JSZip, name :string, from :string|RegExp, to :string) :Promise<void> {
+    const content = await zip.file(name).async('text');
+    assert.notStrictEqual(content.replace(from, to), content, `${name} has not been modified`);
+    zip.file(name, content.replace(from, to));
+}
+
+/**
+ * The error messages of a report for a specific check.
+ */
+const errors = (report :ValidationReport, check :string) :ValidationMessage[] => report.messages.filter((message :ValidationMessage) :boolean => message.severity === 'error' && message.check === check);
+
+describe('validation of the generated EPUB', function () {
+    this.timeout(60000);
+
+    let the_ocf :r2epub.OCF;
+    before(async () => {
+        the_ocf = await convert_fixture();
+    });
+
+    it('generates a valid EPUB file without messages', async () => {
+        const report = await r2epub.validate(the_ocf);
+        assert.deepStrictEqual(report.messages, []);
+        assert.strictEqual(report.valid, true);
+    });
+
+    it('gives the same result for the binary content', async () => {
+        const report = await validate_epub(await the_ocf.get_content() as Buffer);
+        assert.deepStrictEqual(report.messages, []);
+        assert.strictEqual(report.valid, true);
+    });
+
+    it('accepts a document referring to a remote image', async () => {
+        // The image remains remote with the default policy; the content document must be marked accordingly
+        const remote = await convert_fixture((spec :string) :string => spec.replace('<p>x</p>', '<p><img src="https://www.w3.org/Icons/w3c_home.png" alt="W3C"></p>'));
+        const report = await r2epub.validate(remote);
+        assert.deepStrictEqual(report.messages, []);
+        const opf = await (await JSZip.loadAsync(await remote.get_content())).file('package.opf').async('text');
+        assert.ok(/href="Overview.xhtml"[^>]*properties="[^"]*\bremote-resources\b/.test(opf));
+    });
+
+    it('reports a duplicate id', async () => {
+        const epub = await modified_epub(the_ocf, (zip :JSZip) => replace_in(zip, 'Overview.xhtml', '</body>', '<p id="intro">duplicate</p></body>'));
+        const report = await validate_epub(epub);
+        assert.strictEqual(report.valid, false);
+        const messages = errors(report, 'UNIQUE_ID');
+        assert.strictEqual(messages.length, 1);
+        assert.strictEqual(messages[0].path, 'Overview.xhtml');
+    });
+
+    it('reports a missing manifest file', async () => {
+        const epub = await modified_epub(the_ocf, async (zip :JSZip) => { zip.remove('local.css'); });
+        const report = await validate_epub(epub);
+        assert.strictEqual(report.valid, false);
+        const messages = errors(report, 'MANIFEST');
+        assert.strictEqual(messages.length, 1);
+        assert.strictEqual(messages[0].path, 'local.css');
+    });
+
+    it('reports a wrong "scripted" property', async () => {
+        // The fixture refers to the fixup script, i.e., the content document is scripted
+        const epub = await modified_epub(the_ocf, (zip :JSZip) => replace_in(zip, 'package.opf', /(href="Overview.xhtml"[^>]*properties="[^"]*)\bscripted\b/, '$1'));
+        const report = await validate_epub(epub);
+        assert.strictEqual(report.valid, false);
+        const messages = errors(report, 'PROPERTIES');
+        assert.strictEqual(messages.length, 1);
+        assert.strictEqual(messages[0].path, 'Overview.xhtml');
+        assert.ok(messages[0].message.includes('"scripted"'));
+    });
+});